@@ -1,4 +1,4 @@
-import { PluginMessage, HtmlParseResult, ParsedElement } from './types';
+import { PluginMessage, HtmlParseResult, ParsedElement, Viewport } from './types';
 import { HtmlParser } from './modules/html-parser';
 import { NodeFactory } from './modules/node-factory';
 import { AIAnalyzer } from './modules/ai-analyzer';
@@ -39,10 +39,13 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
       }
 
       figma.ui.postMessage({ type: 'html-parse-progress', message: '开始解析HTML...' });
-      const result = await parseHtml(msg.htmlContent, msg.aiSettings);
+      nodeFactory.setImageFiles(msg.images || {});
+      nodeFactory.setFontSubstitutions(msg.fontSubstitutions || {});
+      const result = await parseHtml(msg.htmlContent, msg.aiSettings, msg.viewport, msg.rootFontSize);
       if (result.success) {
-        figma.ui.postMessage({ type: 'html-parse-complete' });
-        figma.notify('HTML解析完成');
+        const warnings = result.warnings || [];
+        figma.ui.postMessage({ type: 'html-parse-complete', warnings, fontSubstitutions: result.fontSubstitutions || [] });
+        figma.notify(warnings.length > 0 ? `HTML解析完成，${warnings.length} 项样式为近似效果` : 'HTML解析完成');
       } else {
         figma.ui.postMessage({ type: 'html-parse-error', error: result.error });
         figma.notify('HTML解析失败: ' + result.error, { error: true });
@@ -69,7 +72,7 @@ function updateAIConfig(settings: any): void {
 }
 
 // HTML解析主函数
-async function parseHtml(htmlContent: string, aiSettings?: any): Promise<HtmlParseResult> {
+async function parseHtml(htmlContent: string, aiSettings?: any, viewport?: Viewport, rootFontSize?: number): Promise<HtmlParseResult> {
   try {
     figma.ui.postMessage({ type: 'html-parse-progress', message: '开始解析HTML文档...' });
     
@@ -100,14 +103,14 @@ async function parseHtml(htmlContent: string, aiSettings?: any): Promise<HtmlPar
     
     figma.ui.postMessage({ type: 'html-parse-progress', message: '转换为Figma元素...' });
 
-    // 转换为ParsedElement格式
-    const cssStyles = htmlParser.extractCssStyles(htmlContent);
+    // 转换为ParsedElement格式（@media查询按目标视口计算）
+    const cssStyles = htmlParser.extractCssStyles(htmlContent, viewport);
 
     // 安全地调用convertToParseElement方法
     const parsedElements: ParsedElement[] = [];
     for (const element of elements) {
       try {
-        const parsedElement = htmlParser.convertToParseElement(element, cssStyles);
+        const parsedElement = htmlParser.convertToParseElement(element, cssStyles, viewport, rootFontSize);
         parsedElements.push(parsedElement);
       } catch (error) {
         console.error('转换元素时出错:', error, element);
@@ -255,6 +258,11 @@ async function parseHtml(htmlContent: string, aiSettings?: any): Promise<HtmlPar
     }
 
     // 创建节点时应用AI优化
+    nodeFactory.takeWarnings(); // 丢弃上次转换遗留的提示
+    nodeFactory.takeFontReport();
+    figma.ui.postMessage({ type: 'html-parse-progress', message: '加载字体...' });
+    await nodeFactory.loadFonts(parsedElements); // 一次性并行加载所需字体，之后创建节点无需等待
+    nodeFactory.setDocument(parsedElements); // SVG <use> 可引用文档中任意元素
     for (const element of parsedElements) {
       try {
         const node = await nodeFactory.createFigmaNodeFromElement(element);
@@ -293,7 +301,12 @@ async function parseHtml(htmlContent: string, aiSettings?: any): Promise<HtmlPar
     const successMessage = `成功创建 ${nodes.length} 个元素`;
     figma.ui.postMessage({ type: 'html-parse-progress', message: successMessage });
     
-    return { elements: parsedElements, success: true };
+    return {
+      elements: parsedElements,
+      success: true,
+      warnings: nodeFactory.takeWarnings(),
+      fontSubstitutions: nodeFactory.takeFontReport()
+    };
   } catch (error) {
     console.error('HTML解析错误:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -314,8 +327,8 @@ function applyAIOptimizations(
       const frame = node as FrameNode;
       const spacing = optimizedLayout.spacing;
 
-      // 应用AI建议的间距系统
-      if (spacing && spacing.baseUnit) {
+      // 应用AI建议的间距系统（已有盒模型的元素保留CSS计算出的内边距）
+      if (spacing && spacing.baseUnit && !element.box) {
         // 根据元素类型应用不同的间距
         if (element.tagName.match(/^h[1-6]$/)) {
           // 标题元素使用更大的间距
@@ -335,7 +348,11 @@ function applyAIOptimizations(
         group.elements.some((el: any) => el.tagName === element.tagName)
       );
 
-      if (matchingGroup) {
+      // CSS Flex 和 Grid 容器已按计算样式排好，不再套用AI建议的布局
+      const display = element.styles ? element.styles.display : '';
+      const hasCssLayout = ['flex', 'inline-flex', 'grid', 'inline-grid'].indexOf(display) !== -1;
+
+      if (matchingGroup && !hasCssLayout) {
         // 应用Auto Layout设置
         if (matchingGroup.layout === 'flex') {
           frame.layoutMode = matchingGroup.direction === 'row' ? 'HORIZONTAL' : 'VERTICAL';
@@ -369,6 +386,23 @@ function applyAIOptimizations(
             default:
               frame.counterAxisAlignItems = 'MIN';
           }
+        } else if (matchingGroup.layout === 'grid') {
+          // 网格分组：换行的横向Auto Layout，子元素按桌面断点的列数等分宽度
+          const columns = optimizedLayout.responsive ? optimizedLayout.responsive.breakpoints.desktop.columns || 3 : 3;
+          const gap = matchingGroup.gap || 0;
+          frame.layoutMode = 'HORIZONTAL';
+          frame.layoutWrap = 'WRAP';
+          frame.primaryAxisSizingMode = 'FIXED';
+          frame.counterAxisSizingMode = 'AUTO';
+          frame.itemSpacing = gap;
+          frame.counterAxisSpacing = gap;
+
+          const cellWidth = (frame.width - frame.paddingLeft - frame.paddingRight - gap * (columns - 1)) / columns;
+          if (cellWidth > 0) {
+            frame.children.forEach(child => {
+              if ('resize' in child) child.resize(cellWidth, child.height);
+            });
+          }
         }
       }
     }
@@ -398,8 +432,8 @@ function applyAIOptimizations(
       }
     }
 
-    // 应用AI建议的字体优化
-    if (node.type === 'TEXT' && designAnalysis.typography) {
+    // 应用AI建议的字体优化（已有盒模型的元素保留CSS计算出的字号和行高）
+    if (node.type === 'TEXT' && designAnalysis.typography && !element.box) {
       const textNode = node as TextNode;
       const typography = designAnalysis.typography;
 
@@ -317,8 +317,8 @@ ${preferencesText}
 
   private analyzeSpacing(elements: ParsedElement[]): DesignAnalysis['designPatterns']['spacing'] {
     // 简化的间距分析
-    const margins = elements.map(el => this.extractSpacing(el.styles.margin || '0'));
-    const paddings = elements.map(el => this.extractSpacing(el.styles.padding || '0'));
+    const margins = elements.map(el => this.extractSpacing(el.styles['margin-top'] || '0'));
+    const paddings = elements.map(el => this.extractSpacing(el.styles['padding-top'] || '0'));
     
     const allSpacings = [...margins, ...paddings].filter(s => s > 0);
     const avgSpacing = allSpacings.reduce((a, b) => a + b, 0) / allSpacings.length || 16;
@@ -359,7 +359,7 @@ ${preferencesText}
           elements: elementRefs,
           relationship: this.detectRelationship(element),
           direction: this.detectDirection(element),
-          spacing: this.extractSpacing(element.styles.gap || element.styles.margin || '16'),
+          spacing: this.extractSpacing(element.styles['row-gap'] || element.styles['margin-top'] || '16'),
           alignment: 'start'
         });
       }
@@ -373,7 +373,7 @@ ${preferencesText}
     const colors = elements.map(el => ({
       bg: el.styles['background-color'],
       text: el.styles.color,
-      border: el.styles['border-color']
+      border: el.styles['border-top-color']
     })).filter(c => c.bg || c.text || c.border);
 
     return {
@@ -0,0 +1,314 @@
+import { RGBA } from '../types';
+
+// The 148 named colors of CSS Color Level 4, as 0xRRGGBB
+const NAMED_COLORS: { [name: string]: number } = {
+  aliceblue: 0xf0f8ff, antiquewhite: 0xfaebd7, aqua: 0x00ffff, aquamarine: 0x7fffd4, azure: 0xf0ffff,
+  beige: 0xf5f5dc, bisque: 0xffe4c4, black: 0x000000, blanchedalmond: 0xffebcd, blue: 0x0000ff,
+  blueviolet: 0x8a2be2, brown: 0xa52a2a, burlywood: 0xdeb887, cadetblue: 0x5f9ea0, chartreuse: 0x7fff00,
+  chocolate: 0xd2691e, coral: 0xff7f50, cornflowerblue: 0x6495ed, cornsilk: 0xfff8dc, crimson: 0xdc143c,
+  cyan: 0x00ffff, darkblue: 0x00008b, darkcyan: 0x008b8b, darkgoldenrod: 0xb8860b, darkgray: 0xa9a9a9,
+  darkgreen: 0x006400, darkgrey: 0xa9a9a9, darkkhaki: 0xbdb76b, darkmagenta: 0x8b008b, darkolivegreen: 0x556b2f,
+  darkorange: 0xff8c00, darkorchid: 0x9932cc, darkred: 0x8b0000, darksalmon: 0xe9967a, darkseagreen: 0x8fbc8f,
+  darkslateblue: 0x483d8b, darkslategray: 0x2f4f4f, darkslategrey: 0x2f4f4f, darkturquoise: 0x00ced1,
+  darkviolet: 0x9400d3, deeppink: 0xff1493, deepskyblue: 0x00bfff, dimgray: 0x696969, dimgrey: 0x696969,
+  dodgerblue: 0x1e90ff, firebrick: 0xb22222, floralwhite: 0xfffaf0, forestgreen: 0x228b22, fuchsia: 0xff00ff,
+  gainsboro: 0xdcdcdc, ghostwhite: 0xf8f8ff, gold: 0xffd700, goldenrod: 0xdaa520, gray: 0x808080,
+  green: 0x008000, greenyellow: 0xadff2f, grey: 0x808080, honeydew: 0xf0fff0, hotpink: 0xff69b4,
+  indianred: 0xcd5c5c, indigo: 0x4b0082, ivory: 0xfffff0, khaki: 0xf0e68c, lavender: 0xe6e6fa,
+  lavenderblush: 0xfff0f5, lawngreen: 0x7cfc00, lemonchiffon: 0xfffacd, lightblue: 0xadd8e6, lightcoral: 0xf08080,
+  lightcyan: 0xe0ffff, lightgoldenrodyellow: 0xfafad2, lightgray: 0xd3d3d3, lightgreen: 0x90ee90,
+  lightgrey: 0xd3d3d3, lightpink: 0xffb6c1, lightsalmon: 0xffa07a, lightseagreen: 0x20b2aa,
+  lightskyblue: 0x87cefa, lightslategray: 0x778899, lightslategrey: 0x778899, lightsteelblue: 0xb0c4de,
+  lightyellow: 0xffffe0, lime: 0x00ff00, limegreen: 0x32cd32, linen: 0xfaf0e6, magenta: 0xff00ff,
+  maroon: 0x800000, mediumaquamarine: 0x66cdaa, mediumblue: 0x0000cd, mediumorchid: 0xba55d3,
+  mediumpurple: 0x9370db, mediumseagreen: 0x3cb371, mediumslateblue: 0x7b68ee, mediumspringgreen: 0x00fa9a,
+  mediumturquoise: 0x48d1cc, mediumvioletred: 0xc71585, midnightblue: 0x191970, mintcream: 0xf5fffa,
+  mistyrose: 0xffe4e1, moccasin: 0xffe4b5, navajowhite: 0xffdead, navy: 0x000080, oldlace: 0xfdf5e6,
+  olive: 0x808000, olivedrab: 0x6b8e23, orange: 0xffa500, orangered: 0xff4500, orchid: 0xda70d6,
+  palegoldenrod: 0xeee8aa, palegreen: 0x98fb98, paleturquoise: 0xafeeee, palevioletred: 0xdb7093,
+  papayawhip: 0xffefd5, peachpuff: 0xffdab9, peru: 0xcd853f, pink: 0xffc0cb, plum: 0xdda0dd,
+  powderblue: 0xb0e0e6, purple: 0x800080, rebeccapurple: 0x663399, red: 0xff0000, rosybrown: 0xbc8f8f,
+  royalblue: 0x4169e1, saddlebrown: 0x8b4513, salmon: 0xfa8072, sandybrown: 0xf4a460, seagreen: 0x2e8b57,
+  seashell: 0xfff5ee, sienna: 0xa0522d, silver: 0xc0c0c0, skyblue: 0x87ceeb, slateblue: 0x6a5acd,
+  slategray: 0x708090, slategrey: 0x708090, snow: 0xfffafa, springgreen: 0x00ff7f, steelblue: 0x4682b4,
+  tan: 0xd2b48c, teal: 0x008080, thistle: 0xd8bfd8, tomato: 0xff6347, turquoise: 0x40e0d0,
+  violet: 0xee82ee, wheat: 0xf5deb3, white: 0xffffff, whitesmoke: 0xf5f5f5, yellow: 0xffff00,
+  yellowgreen: 0x9acd32
+};
+
+const ANGLES: { [unit: string]: number } = {
+  '': 1, deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360
+};
+
+// D50 white point of CIE Lab/LCH
+const D50 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+// Row-major 3×3 matrices from CSS Color Level 4, sample code section
+const XYZ_D50_TO_D65 = [
+  0.955473421488075, -0.02309845494876471, 0.06325924320057072,
+  -0.0283697093338637, 1.0099953980813041, 0.021041441191917323,
+  0.012314014864481998, -0.020507649298898964, 1.330365926242124
+];
+const XYZ_D65_TO_LINEAR_SRGB = [
+  3.2409699419045226, -1.537383177570094, -0.4986107602930034,
+  -0.9692436362808796, 1.8759675015077202, 0.04155505740717559,
+  0.05563007969699366, -0.20397695888897652, 1.0569715142428786
+];
+const LINEAR_P3_TO_XYZ_D65 = [
+  0.4865709486482162, 0.26566769316909306, 0.1982172852343625,
+  0.2289745640697488, 0.6917385218365064, 0.079286914093745,
+  0, 0.04511338185890264, 1.043944368900976
+];
+const OKLAB_TO_LMS = [
+  1, 0.3963377773761749, 0.2158037573099136,
+  1, -0.1055613458156586, -0.0638541728258133,
+  1, -0.0894841775298119, -1.2914855480194092
+];
+const LMS_TO_LINEAR_SRGB = [
+  4.0767416360759583, -3.3077115392580629, 0.2309699031821043,
+  -1.2684379732850315, 2.6097573492876887, -0.3413193760026573,
+  -0.0041960761386756, -0.7034186179359362, 1.7076146940746117
+];
+
+type Vector = [number, number, number];
+
+/**
+ * Parses CSS color values into sRGB with alpha: hex notation (3, 4, 6 and
+ * 8 digits), named colors, `transparent`, `currentColor`, and the color
+ * functions of CSS Color Level 4 in both their legacy comma-separated and
+ * modern space-separated forms. Wide-gamut colors are clipped to sRGB.
+ */
+export class ColorParser {
+  // `currentColor` resolves to the given color; null when the value is not a color
+  parse(value: string, currentColor?: string): RGBA | null {
+    if (!value) return null;
+    const color = value.trim().toLowerCase();
+
+    if (color === 'currentcolor') {
+      return currentColor && currentColor.trim().toLowerCase() !== 'currentcolor' ? this.parse(currentColor) : null;
+    }
+    if (color === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+    if (color.charAt(0) === '#') return this.parseHex(color.slice(1));
+    if (NAMED_COLORS[color] !== undefined) return this.fromInteger(NAMED_COLORS[color], 1);
+
+    const func = /^([a-z-]+)\((.*)\)$/.exec(color);
+    return func ? this.parseFunction(func[1], func[2]) : null;
+  }
+
+  private parseHex(hex: string): RGBA | null {
+    if (!/^[0-9a-f]+$/.test(hex)) return null;
+
+    if (hex.length === 3 || hex.length === 4) {
+      const digits = hex.split('').map(digit => parseInt(digit + digit, 16) / 255);
+      return { r: digits[0], g: digits[1], b: digits[2], a: hex.length === 4 ? digits[3] : 1 };
+    }
+    if (hex.length === 6 || hex.length === 8) {
+      const alpha = hex.length === 8 ? parseInt(hex.slice(6), 16) / 255 : 1;
+      return this.fromInteger(parseInt(hex.slice(0, 6), 16), alpha);
+    }
+    return null;
+  }
+
+  private parseFunction(name: string, body: string): RGBA | null {
+    const args = this.splitArguments(body);
+    if (!args) return null;
+
+    // color(<space> c1 c2 c3) names its color space first
+    if (name === 'color') {
+      const space = args.channels.shift();
+      return space ? this.parseColorSpace(space, args.channels, args.alpha) : null;
+    }
+    if (args.channels.length !== 3) return null;
+
+    const alpha = args.alpha !== undefined ? this.parseAlpha(args.alpha) : 1;
+    if (alpha === null) return null;
+    const [c1, c2, c3] = args.channels;
+    let rgb: Vector | null = null;
+
+    switch (name) {
+      case 'rgb':
+      case 'rgba': {
+        const channels = [c1, c2, c3].map(channel => this.parseNumber(channel, 255));
+        if (channels.some(channel => channel === null)) return null;
+        rgb = (channels as number[]).map(channel => channel / 255) as Vector;
+        break;
+      }
+      case 'hsl':
+      case 'hsla':
+      case 'hwb': {
+        const hue = this.parseHue(c1);
+        const first = this.parseNumber(c2, 100);
+        const second = this.parseNumber(c3, 100);
+        if (hue === null || first === null || second === null) return null;
+        rgb = name === 'hwb'
+          ? this.hwbToRgb(hue, first / 100, second / 100)
+          : this.hslToRgb(hue, first / 100, second / 100);
+        break;
+      }
+      case 'lab':
+      case 'lch':
+      case 'oklab':
+      case 'oklch': {
+        const isOk = name.indexOf('ok') === 0;
+        // Percentage references: L is 0–100 (oklab 0–1), a/b and chroma as in the spec
+        const lightness = this.parseNumber(c1, isOk ? 1 : 100);
+        const second = this.parseNumber(c2, isOk ? 0.4 : name === 'lab' ? 125 : 150);
+        if (lightness === null || second === null) return null;
+
+        let a = second;
+        let b = this.parseNumber(c3, isOk ? 0.4 : 125);
+        if (name === 'lch' || name === 'oklch') {
+          const hue = this.parseHue(c3);
+          if (hue === null) return null;
+          a = second * Math.cos(hue * Math.PI / 180);
+          b = second * Math.sin(hue * Math.PI / 180);
+        }
+        if (b === null) return null;
+        rgb = isOk ? this.oklabToRgb(lightness, a, b) : this.labToRgb(lightness, a, b);
+        break;
+      }
+      default:
+        return null;
+    }
+
+    return this.clip(rgb, alpha);
+  }
+
+  private parseColorSpace(space: string, channels: string[], alphaValue: string | undefined): RGBA | null {
+    if (channels.length !== 3) return null;
+    const values = channels.map(channel => this.parseNumber(channel, 1));
+    const alpha = alphaValue !== undefined ? this.parseAlpha(alphaValue) : 1;
+    if (values.some(value => value === null) || alpha === null) return null;
+    const vector = values as Vector;
+
+    switch (space) {
+      case 'srgb':
+        return this.clip(vector, alpha);
+      case 'srgb-linear':
+        return this.clip(vector.map(channel => this.gammaEncode(channel)) as Vector, alpha);
+      case 'display-p3': {
+        const linear = vector.map(channel => this.gammaDecode(channel)) as Vector;
+        return this.clip(this.xyzD65ToRgb(this.multiply(LINEAR_P3_TO_XYZ_D65, linear)), alpha);
+      }
+      case 'xyz':
+      case 'xyz-d65':
+        return this.clip(this.xyzD65ToRgb(vector), alpha);
+      case 'xyz-d50':
+        return this.clip(this.xyzD65ToRgb(this.multiply(XYZ_D50_TO_D65, vector)), alpha);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Splits the arguments of a color function into channels and alpha,
+   * accepting `r, g, b, a` as well as `r g b / a`.
+   */
+  private splitArguments(body: string): { channels: string[]; alpha?: string } | null {
+    if (body.indexOf(',') !== -1) {
+      const parts = body.split(',').map(part => part.trim());
+      if (parts.some(part => !part) || parts.length < 3 || parts.length > 4) return null;
+      return { channels: parts.slice(0, 3), alpha: parts[3] };
+    }
+
+    const slash = body.split('/');
+    if (slash.length > 2) return null;
+    const channels = slash[0].trim().split(/\s+/).filter(part => part);
+    const alpha = slash.length === 2 ? slash[1].trim() : undefined;
+    if (alpha === '') return null;
+    return { channels, alpha };
+  }
+
+  // A number, or a percentage of `percentReference`; `none` is zero
+  private parseNumber(value: string, percentReference: number): number | null {
+    if (value === 'none') return 0;
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/.exec(value);
+    if (!match) return null;
+    const number = parseFloat(match[1]);
+    return match[2] ? number / 100 * percentReference : number;
+  }
+
+  // Hue in degrees, normalized to [0, 360)
+  private parseHue(value: string): number | null {
+    if (value === 'none') return 0;
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/.exec(value);
+    if (!match) return null;
+    const degrees = parseFloat(match[1]) * ANGLES[match[2] || ''];
+    return ((degrees % 360) + 360) % 360;
+  }
+
+  private parseAlpha(value: string): number | null {
+    const alpha = this.parseNumber(value, 1);
+    return alpha === null ? null : Math.max(0, Math.min(1, alpha));
+  }
+
+  private hslToRgb(hue: number, saturation: number, lightness: number): Vector {
+    const s = Math.max(0, Math.min(1, saturation));
+    const l = Math.max(0, Math.min(1, lightness));
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [channel(0), channel(8), channel(4)];
+  }
+
+  private hwbToRgb(hue: number, whiteness: number, blackness: number): Vector {
+    if (whiteness + blackness >= 1) {
+      const gray = whiteness / (whiteness + blackness);
+      return [gray, gray, gray];
+    }
+    return this.hslToRgb(hue, 1, 0.5).map(channel => channel * (1 - whiteness - blackness) + whiteness) as Vector;
+  }
+
+  private labToRgb(lightness: number, a: number, b: number): Vector {
+    const epsilon = 216 / 24389;
+    const kappa = 24389 / 27;
+    const fy = (lightness + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+    const xyz: Vector = [
+      (Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa) * D50[0],
+      (lightness > kappa * epsilon ? Math.pow(fy, 3) : lightness / kappa) * D50[1],
+      (Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa) * D50[2]
+    ];
+    return this.xyzD65ToRgb(this.multiply(XYZ_D50_TO_D65, xyz));
+  }
+
+  private oklabToRgb(lightness: number, a: number, b: number): Vector {
+    const lms = this.multiply(OKLAB_TO_LMS, [lightness, a, b]).map(value => Math.pow(value, 3)) as Vector;
+    return this.multiply(LMS_TO_LINEAR_SRGB, lms).map(channel => this.gammaEncode(channel)) as Vector;
+  }
+
+  private xyzD65ToRgb(xyz: Vector): Vector {
+    return this.multiply(XYZ_D65_TO_LINEAR_SRGB, xyz).map(channel => this.gammaEncode(channel)) as Vector;
+  }
+
+  // Linear light to the sRGB transfer curve
+  private gammaEncode(value: number): number {
+    const sign = value < 0 ? -1 : 1;
+    const abs = Math.abs(value);
+    return abs > 0.0031308 ? sign * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055) : 12.92 * value;
+  }
+
+  private gammaDecode(value: number): number {
+    const sign = value < 0 ? -1 : 1;
+    const abs = Math.abs(value);
+    return abs > 0.04045 ? sign * Math.pow((abs + 0.055) / 1.055, 2.4) : value / 12.92;
+  }
+
+  private multiply(matrix: number[], vector: Vector): Vector {
+    return [0, 1, 2].map(row =>
+      matrix[row * 3] * vector[0] + matrix[row * 3 + 1] * vector[1] + matrix[row * 3 + 2] * vector[2]
+    ) as Vector;
+  }
+
+  private fromInteger(value: number, alpha: number): RGBA {
+    return { r: (value >> 16 & 0xff) / 255, g: (value >> 8 & 0xff) / 255, b: (value & 0xff) / 255, a: alpha };
+  }
+
+  // Clips out-of-gamut channels and rounds away floating point noise
+  private clip(rgb: Vector, alpha: number): RGBA {
+    const [r, g, b] = rgb.map(channel => Math.round(Math.max(0, Math.min(1, channel)) * 1e6) / 1e6);
+    return { r, g, b, a: Math.round(alpha * 1e6) / 1e6 };
+  }
+}
@@ -0,0 +1,268 @@
+import { Viewport } from '../types';
+
+// What relative units and percentages resolve against for one value
+export interface UnitContext {
+  fontSize: number;
+  rootFontSize: number;
+  viewport: Viewport;
+  percentBasis?: number; // Percentages stay unresolved without one
+}
+
+// Lengths are kept in px and angles in deg; '' is a plain number
+interface CssNumeric {
+  value: number;
+  unit: '' | 'px' | '%' | 'deg';
+}
+
+type MathToken =
+  | { type: 'number'; numeric: CssNumeric }
+  | { type: 'function'; name: string }
+  | { type: 'operator'; value: string };
+
+const ABSOLUTE_LENGTHS: { [unit: string]: number } = {
+  px: 1, pt: 4 / 3, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, q: 96 / 101.6
+};
+
+const ANGLES: { [unit: string]: number } = {
+  deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360
+};
+
+const MATH_FUNCTION = /(^|[^\w-])(?:-webkit-)?(calc|min|max|clamp)\(/i;
+
+/**
+ * Evaluates CSS math functions (`calc()`, `min()`, `max()`, `clamp()`,
+ * nested in any combination) once the unit context is known. Expressions
+ * that mix units which cannot be converted here, such as `100% - 20px`
+ * without a percentage basis, are left for a later stage.
+ */
+export class CssMathEvaluator {
+  // Replaces every math function in `value` that can be resolved with its result
+  resolve(value: string, context: UnitContext): string {
+    let result = '';
+    let rest = value;
+    let match;
+
+    while ((match = MATH_FUNCTION.exec(rest)) !== null) {
+      const start = match.index + match[1].length;
+      const end = this.findClosingParen(rest, match.index + match[0].length);
+      const expression = rest.slice(start, end + 1);
+      const numeric = this.evaluate(expression, context);
+
+      result += rest.slice(0, start) + (numeric ? this.format(numeric) : expression);
+      rest = rest.slice(end + 1);
+    }
+
+    return result + rest;
+  }
+
+  /**
+   * Converts every length outside `url()` and strings to px, and percentages
+   * too when the context has a basis for them. Angles, times, `fr` and
+   * unknown units are left as written.
+   */
+  resolveLengths(value: string, context: UnitContext): string {
+    return value.replace(/url\([^)]*\)|"(?:\\.|[^"])*"|'(?:\\.|[^'])*'|(^|[\s,(/])([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]+|%)(?=$|[\s,)/])/gi,
+      (match: string, prefix: string | undefined, number: string | undefined, unit: string | undefined) => {
+        if (number === undefined || unit === undefined) return match;
+        const lowerUnit = unit.toLowerCase();
+        if (lowerUnit === 'px' || ANGLES[lowerUnit] !== undefined) return match;
+
+        const numeric = this.toNumeric(parseFloat(number), lowerUnit, context);
+        return numeric && numeric.unit === 'px' ? prefix + this.format(numeric) : match;
+      });
+  }
+
+  // Evaluates one math function, or null when the expression is invalid or unresolvable
+  evaluate(expression: string, context: UnitContext): CssNumeric | null {
+    const tokens = this.tokenize(expression, context);
+    if (!tokens) return null;
+
+    const parser = new MathParser(tokens);
+    const result = parser.parseValue();
+    return parser.atEnd() ? result : null;
+  }
+
+  private tokenize(expression: string, context: UnitContext): MathToken[] | null {
+    const tokens: MathToken[] = [];
+    let pos = 0;
+
+    while (pos < expression.length) {
+      const ch = expression.charAt(pos);
+      if (/\s/.test(ch)) {
+        pos++;
+        continue;
+      }
+
+      const previous = tokens[tokens.length - 1];
+      const expectsOperand = !previous || (previous.type !== 'number' && !(previous.type === 'operator' && previous.value === ')'));
+      const number = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?([a-z]+|%)?/i.exec(expression.slice(pos));
+
+      if (number && (expectsOperand || /\d|\./.test(ch))) {
+        const numeric = this.toNumeric(parseFloat(number[0]), (number[1] || '').toLowerCase(), context);
+        if (!numeric) return null;
+        tokens.push({ type: 'number', numeric });
+        pos += number[0].length;
+        continue;
+      }
+
+      const func = /^(?:-webkit-)?([a-z]+)\(/i.exec(expression.slice(pos));
+      if (func) {
+        tokens.push({ type: 'function', name: func[1].toLowerCase() });
+        pos += func[0].length;
+        continue;
+      }
+
+      const constant = /^(pi|e|infinity|-infinity)(?![\w-])/i.exec(expression.slice(pos));
+      if (constant) {
+        const name = constant[1].toLowerCase();
+        const value = name === 'pi' ? Math.PI : name === 'e' ? Math.E : name === 'infinity' ? Infinity : -Infinity;
+        tokens.push({ type: 'number', numeric: { value, unit: '' } });
+        pos += constant[0].length;
+        continue;
+      }
+
+      if ('+-*/(),'.indexOf(ch) !== -1) {
+        tokens.push({ type: 'operator', value: ch });
+        pos++;
+        continue;
+      }
+
+      return null;
+    }
+
+    return tokens;
+  }
+
+  private toNumeric(value: number, unit: string, context: UnitContext): CssNumeric | null {
+    if (!unit) return { value, unit: '' };
+    if (unit === '%') {
+      return context.percentBasis !== undefined
+        ? { value: value / 100 * context.percentBasis, unit: 'px' }
+        : { value, unit: '%' };
+    }
+    if (ABSOLUTE_LENGTHS[unit] !== undefined) return { value: value * ABSOLUTE_LENGTHS[unit], unit: 'px' };
+    if (ANGLES[unit] !== undefined) return { value: value * ANGLES[unit], unit: 'deg' };
+
+    const { width, height } = context.viewport;
+    switch (unit) {
+      case 'em': return { value: value * context.fontSize, unit: 'px' };
+      case 'rem': return { value: value * context.rootFontSize, unit: 'px' };
+      case 'ex':
+      case 'ch': return { value: value * context.fontSize / 2, unit: 'px' };
+      case 'vw': return { value: value * width / 100, unit: 'px' };
+      case 'vh': return { value: value * height / 100, unit: 'px' };
+      case 'vmin': return { value: value * Math.min(width, height) / 100, unit: 'px' };
+      case 'vmax': return { value: value * Math.max(width, height) / 100, unit: 'px' };
+      default: return null;
+    }
+  }
+
+  private format(numeric: CssNumeric): string {
+    return `${Math.round(numeric.value * 10000) / 10000}${numeric.unit}`;
+  }
+
+  private findClosingParen(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+      if (text.charAt(i) === '(') depth++;
+      else if (text.charAt(i) === ')' && --depth === 0) return i;
+    }
+    return text.length - 1;
+  }
+}
+
+// Recursive-descent parser over the tokens of one math function
+class MathParser {
+  private pos = 0;
+
+  constructor(private tokens: MathToken[]) {}
+
+  atEnd(): boolean {
+    return this.pos === this.tokens.length;
+  }
+
+  // value := number | '(' sum ')' | function '(' arguments ')'
+  parseValue(): CssNumeric | null {
+    const token = this.tokens[this.pos++];
+    if (!token) return null;
+
+    if (token.type === 'number') return token.numeric;
+
+    if (token.type === 'operator' && token.value === '(') {
+      const result = this.parseSum();
+      return this.expect(')') ? result : null;
+    }
+
+    if (token.type === 'function') {
+      const args: (CssNumeric | null)[] = [this.parseSum()];
+      while (this.peekOperator(',')) {
+        this.pos++;
+        args.push(this.parseSum());
+      }
+      if (!this.expect(')') || args.some(arg => arg === null)) return null;
+      return this.applyFunction(token.name, args as CssNumeric[]);
+    }
+
+    return null;
+  }
+
+  private parseSum(): CssNumeric | null {
+    let left = this.parseProduct();
+    while (left && (this.peekOperator('+') || this.peekOperator('-'))) {
+      const operator = (this.tokens[this.pos++] as { value: string }).value;
+      const right = this.parseProduct();
+      if (!right || left.unit !== right.unit) return null;
+      left = { value: operator === '+' ? left.value + right.value : left.value - right.value, unit: left.unit };
+    }
+    return left;
+  }
+
+  private parseProduct(): CssNumeric | null {
+    let left = this.parseValue();
+    while (left && (this.peekOperator('*') || this.peekOperator('/'))) {
+      const operator = (this.tokens[this.pos++] as { value: string }).value;
+      const right = this.parseValue();
+      if (!right) return null;
+
+      if (operator === '*') {
+        if (left.unit && right.unit) return null;
+        left = { value: left.value * right.value, unit: left.unit || right.unit };
+      } else {
+        if (right.unit || right.value === 0) return null;
+        left = { value: left.value / right.value, unit: left.unit };
+      }
+    }
+    return left;
+  }
+
+  private applyFunction(name: string, args: CssNumeric[]): CssNumeric | null {
+    const unit = args[0].unit;
+    if (args.some(arg => arg.unit !== unit)) return null;
+    const values = args.map(arg => arg.value);
+
+    switch (name) {
+      case 'calc':
+        return args.length === 1 ? args[0] : null;
+      case 'min':
+        return { value: Math.min(...values), unit };
+      case 'max':
+        return { value: Math.max(...values), unit };
+      case 'clamp':
+        // clamp(MIN, VAL, MAX) = max(MIN, min(VAL, MAX))
+        return args.length === 3 ? { value: Math.max(values[0], Math.min(values[1], values[2])), unit } : null;
+      default:
+        return null;
+    }
+  }
+
+  private peekOperator(value: string): boolean {
+    const token = this.tokens[this.pos];
+    return !!token && token.type === 'operator' && token.value === value;
+  }
+
+  private expect(value: string): boolean {
+    if (!this.peekOperator(value)) return false;
+    this.pos++;
+    return true;
+  }
+}
@@ -0,0 +1,160 @@
+import { CssRule, CssDeclaration, Viewport } from '../types';
+import { MediaQueryEvaluator } from './media-query';
+import { splitTopLevel, splitConditionParts, findTopLevel, findBlockEnd, skipString } from './css-split';
+
+// At-rules whose block holds ordinary style rules
+const GROUPING_AT_RULES = ['media', 'supports', 'layer'];
+
+const PROPERTY_NAME = /^(?:--[\w-]*|-?[a-zA-Z][\w-]*)$/;
+
+/**
+ * Stylesheet parser. Style rules come out in source order; grouping
+ * at-rules (`@media`, `@supports`, `@layer`) contribute their rules when
+ * their condition holds for the target viewport, and every other at-rule
+ * (`@import`, `@font-face`, `@keyframes`, `@page`, ...) is skipped whole.
+ */
+export class CssParser {
+  private mediaQueryEvaluator = new MediaQueryEvaluator();
+
+  parseStylesheet(css: string, viewport: Viewport, rules: CssRule[] = []): CssRule[] {
+    this.parseRuleList(this.stripComments(css), viewport, rules);
+    return rules;
+  }
+
+  /**
+   * Splits a declaration block on semicolons that are not inside quotes or
+   * parentheses, so values like `url(data:image/png;base64,...)` stay intact.
+   */
+  parseDeclarations(block: string): CssDeclaration[] {
+    const declarations: CssDeclaration[] = [];
+
+    for (const part of splitTopLevel(block, ';')) {
+      const colon = part.indexOf(':');
+      if (colon === -1) continue;
+
+      const name = part.slice(0, colon).trim();
+      let value = part.slice(colon + 1).trim();
+      const important = /!\s*important\s*$/i.test(value);
+      if (important) {
+        value = value.replace(/!\s*important\s*$/i, '').trim();
+      }
+
+      if (PROPERTY_NAME.test(name) && value) {
+        // Custom property names are case-sensitive
+        const property = name.indexOf('--') === 0 ? name : name.toLowerCase();
+        declarations.push({ property, value, important });
+      }
+    }
+
+    return declarations;
+  }
+
+  private parseRuleList(css: string, viewport: Viewport, rules: CssRule[]): void {
+    let pos = 0;
+
+    while (pos < css.length) {
+      const preludeEnd = findTopLevel(css, pos, '{;');
+      const prelude = css.slice(pos, preludeEnd).trim();
+
+      // A statement at-rule such as `@import url(...);` or `@layer base;`
+      if (css.charAt(preludeEnd) !== '{') {
+        pos = preludeEnd + 1;
+        continue;
+      }
+
+      const blockEnd = findBlockEnd(css, preludeEnd + 1);
+      const block = css.slice(preludeEnd + 1, blockEnd);
+      pos = blockEnd + 1;
+
+      if (prelude.charAt(0) === '@') {
+        this.parseAtRule(prelude, block, viewport, rules);
+      } else if (prelude) {
+        rules.push({ selector: prelude, declarations: this.parseDeclarations(this.stripNestedRules(block)) });
+      }
+    }
+  }
+
+  private parseAtRule(prelude: string, block: string, viewport: Viewport, rules: CssRule[]): void {
+    const match = /^@([\w-]+)\s*([\s\S]*)$/.exec(prelude);
+    const name = match ? match[1].toLowerCase() : '';
+    const condition = match ? match[2] : '';
+    if (GROUPING_AT_RULES.indexOf(name) === -1) return;
+
+    if (name === 'media' && !this.mediaQueryEvaluator.matches(condition, viewport)) return;
+    if (name === 'supports' && !this.evaluateSupports(condition)) return;
+
+    this.parseRuleList(block, viewport, rules);
+  }
+
+  /**
+   * `@supports` conditions: every declaration or `selector()` test is taken
+   * to pass, as in a current browser, so only `not` can rule a block out.
+   */
+  private evaluateSupports(condition: string): boolean {
+    const parts = splitConditionParts(condition.trim());
+    if (parts.length === 0) return false;
+
+    if (parts[0].toLowerCase() === 'not') {
+      return parts.length === 2 && !this.evaluateSupportsInParens(parts[1]);
+    }
+
+    const operands = parts.filter((part, i) => i % 2 === 0);
+    return parts.length > 1 && parts[1].toLowerCase() === 'or'
+      ? operands.some(operand => this.evaluateSupportsInParens(operand))
+      : operands.every(operand => this.evaluateSupportsInParens(operand));
+  }
+
+  private evaluateSupportsInParens(part: string): boolean {
+    if (part.charAt(0) !== '(') {
+      return true; // selector(), font-tech() and similar function tests
+    }
+    const inner = part.slice(1, -1).trim();
+    if (inner.charAt(0) === '(' || /^not\s/i.test(inner)) {
+      return this.evaluateSupports(inner);
+    }
+    return true;
+  }
+
+  // Nested style rules (CSS nesting) are not supported; keep only the declarations
+  private stripNestedRules(block: string): string {
+    let result = '';
+    let pos = 0;
+
+    while (pos < block.length) {
+      const preludeEnd = findTopLevel(block, pos, '{;');
+      if (block.charAt(preludeEnd) !== '{') {
+        result += block.slice(pos, preludeEnd + 1);
+        pos = preludeEnd + 1;
+        continue;
+      }
+      // Drop the nested rule's selector along with its block
+      const declarationEnd = block.lastIndexOf(';', preludeEnd);
+      if (declarationEnd >= pos) result += block.slice(pos, declarationEnd + 1);
+      pos = findBlockEnd(block, preludeEnd + 1) + 1;
+    }
+
+    return result;
+  }
+
+  private stripComments(css: string): string {
+    let result = '';
+    let pos = 0;
+
+    while (pos < css.length) {
+      const ch = css.charAt(pos);
+      if (ch === '"' || ch === "'") {
+        const end = skipString(css, pos);
+        result += css.slice(pos, end + 1);
+        pos = end + 1;
+      } else if (ch === '/' && css.charAt(pos + 1) === '*') {
+        const end = css.indexOf('*/', pos + 2);
+        pos = end === -1 ? css.length : end + 2;
+      } else {
+        result += ch;
+        pos++;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,109 @@
+// Returns the index of the closing quote; an unclosed string ends at the line break
+export function skipString(text: string, start: number): number {
+  const quote = text.charAt(start);
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (ch === '\\') i++;
+    else if (ch === quote || ch === '\n') return i;
+  }
+  return text.length;
+}
+
+/**
+ * Index of the first character from `start` on that is one of `stops` and
+ * not inside parentheses, brackets or a string, or the length of the text.
+ * A ' ' among the stops stands for any whitespace.
+ */
+export function findTopLevel(text: string, start: number, stops: string): number {
+  const anySpace = stops.indexOf(' ') !== -1;
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (ch === '"' || ch === "'") {
+      i = skipString(text, i);
+    } else if (ch === '\\') {
+      i++;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && (stops.indexOf(ch) !== -1 || (anySpace && /\s/.test(ch)))) {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+// Index of the `}` that closes the block starting at `start`; an unclosed block runs to the end
+export function findBlockEnd(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (ch === '"' || ch === "'") {
+      i = skipString(text, i);
+    } else if (ch === '\\') {
+      i++;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Splits CSS text on a separator that is not inside parentheses, brackets
+ * or a string. A ' ' separator splits on any whitespace. The parts are
+ * returned as they are, empty ones included.
+ */
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (;;) {
+    const end = findTopLevel(text, start, separator);
+    parts.push(text.slice(start, end));
+    if (end >= text.length) return parts;
+    start = end + 1;
+  }
+}
+
+// The non-empty parts of a list of values or layers, trimmed
+export function splitValues(text: string, separator: string): string[] {
+  return splitTopLevel(text, separator)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+}
+
+/**
+ * Breaks an @media or @supports condition into parenthesized groups,
+ * function tests such as `selector(...)` and the keywords between them.
+ * Returns an empty list when the condition cannot be split this way.
+ */
+export function splitConditionParts(condition: string): string[] {
+  const parts: string[] = [];
+  let pos = 0;
+
+  while (pos < condition.length) {
+    if (/\s/.test(condition.charAt(pos))) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    while (pos < condition.length && /[\w-]/.test(condition.charAt(pos))) pos++;
+    if (condition.charAt(pos) === '(') {
+      let depth = 0;
+      for (; pos < condition.length; pos++) {
+        if (condition.charAt(pos) === '(') depth++;
+        else if (condition.charAt(pos) === ')' && --depth === 0) break;
+      }
+      pos++;
+    } else if (pos === start) {
+      return [];
+    }
+    parts.push(condition.slice(start, pos));
+  }
+
+  return parts;
+}
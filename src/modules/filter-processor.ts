@@ -0,0 +1,134 @@
+import { RGBA } from '../types';
+
+export interface FilterFunction {
+  name: string;
+  args: string;
+}
+
+export type ColorAdjustment = (color: RGBA) => RGBA;
+
+type Matrix = number[];
+
+const ANGLES: { [unit: string]: number } = {
+  deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360
+};
+
+// Functions whose amount cannot exceed 100%
+const CLAMPED_AMOUNTS = ['grayscale', 'sepia', 'invert', 'opacity'];
+
+/**
+ * Reads `filter` and `backdrop-filter` function lists. Figma has no
+ * equivalent of the color filters (`grayscale()`, `brightness()`, ...),
+ * so they are turned into adjustments of paint colors, following the
+ * matrices of the Filter Effects spec.
+ */
+export class FilterProcessor {
+  // The functions in order, [] for `none`, or null when the list is invalid
+  parse(value: string): FilterFunction[] | null {
+    const filter = value.trim();
+    if (filter === 'none') return [];
+
+    const functions: FilterFunction[] = [];
+    const pattern = /\s*([a-z-]+)\(((?:[^()]|\([^()]*\))*)\)\s*/gi;
+    let consumed = 0;
+    let match;
+
+    while ((match = pattern.exec(filter)) !== null) {
+      if (match.index !== consumed) return null;
+      functions.push({ name: match[1].toLowerCase(), args: match[2].trim() });
+      consumed = pattern.lastIndex;
+    }
+
+    // url() references and anything else left over cannot be parsed here
+    return consumed === filter.length && functions.length > 0 ? functions : null;
+  }
+
+  // A number or percentage; the default when omitted is 1, i.e. 100%
+  parseAmount(filter: FilterFunction): number | null {
+    if (!filter.args) return 1;
+    const match = /^([+]?(?:\d+\.?\d*|\.\d+))(%?)$/.exec(filter.args);
+    if (!match) return null;
+
+    const amount = parseFloat(match[1]) / (match[2] ? 100 : 1);
+    return CLAMPED_AMOUNTS.indexOf(filter.name) !== -1 ? Math.min(amount, 1) : amount;
+  }
+
+  // null for functions that are not color filters or have invalid arguments
+  createColorAdjustment(filter: FilterFunction): ColorAdjustment | null {
+    if (filter.name === 'hue-rotate') {
+      const angle = this.parseAngle(filter.args);
+      return angle !== null ? this.matrixAdjustment(this.hueRotateMatrix(angle)) : null;
+    }
+
+    const amount = this.parseAmount(filter);
+    if (amount === null) return null;
+
+    switch (filter.name) {
+      case 'grayscale': {
+        const a = 1 - amount;
+        return this.matrixAdjustment([
+          0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a,
+          0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a,
+          0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a
+        ]);
+      }
+      case 'sepia': {
+        const a = 1 - amount;
+        return this.matrixAdjustment([
+          0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a,
+          0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a,
+          0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a
+        ]);
+      }
+      case 'saturate':
+        return this.matrixAdjustment([
+          0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount,
+          0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount,
+          0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount
+        ]);
+      case 'invert':
+        return this.channelAdjustment(channel => channel + amount * (1 - 2 * channel));
+      case 'brightness':
+        return this.channelAdjustment(channel => channel * amount);
+      case 'contrast':
+        return this.channelAdjustment(channel => (channel - 0.5) * amount + 0.5);
+      default:
+        return null;
+    }
+  }
+
+  private hueRotateMatrix(degrees: number): Matrix {
+    const cos = Math.cos(degrees * Math.PI / 180);
+    const sin = Math.sin(degrees * Math.PI / 180);
+    return [
+      0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+      0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+      0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+    ];
+  }
+
+  private matrixAdjustment(matrix: Matrix): ColorAdjustment {
+    return color => this.clamp({
+      r: matrix[0] * color.r + matrix[1] * color.g + matrix[2] * color.b,
+      g: matrix[3] * color.r + matrix[4] * color.g + matrix[5] * color.b,
+      b: matrix[6] * color.r + matrix[7] * color.g + matrix[8] * color.b,
+      a: color.a
+    });
+  }
+
+  private channelAdjustment(adjust: (channel: number) => number): ColorAdjustment {
+    return color => this.clamp({ r: adjust(color.r), g: adjust(color.g), b: adjust(color.b), a: color.a });
+  }
+
+  private clamp(color: RGBA): RGBA {
+    const clampChannel = (channel: number) => Math.round(Math.max(0, Math.min(1, channel)) * 1e6) / 1e6;
+    return { r: clampChannel(color.r), g: clampChannel(color.g), b: clampChannel(color.b), a: color.a };
+  }
+
+  private parseAngle(value: string): number | null {
+    if (!value) return 0;
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+))(deg|rad|grad|turn)?$/.exec(value);
+    if (!match || (!match[2] && parseFloat(match[1]) !== 0)) return null;
+    return parseFloat(match[1]) * ANGLES[match[2] || 'deg'];
+  }
+}
@@ -0,0 +1,244 @@
+import { FontSubstitution } from '../types';
+
+export interface FontRequest {
+  family: string; // The font-family stack as in CSS
+  weight: number; // 100–900
+  italic: boolean;
+}
+
+// Figma families tried in order for the CSS generic families
+const GENERIC_FAMILIES: { [generic: string]: string[] } = {
+  'serif': ['Times New Roman', 'Georgia', 'Noto Serif', 'Source Serif Pro', 'PT Serif'],
+  'sans-serif': ['Inter', 'Roboto', 'Arial', 'Helvetica'],
+  'monospace': ['Roboto Mono', 'Source Code Pro', 'JetBrains Mono', 'Courier New', 'Menlo'],
+  'system-ui': ['SF Pro Text', 'SF Pro', 'Segoe UI', 'Roboto', 'Inter'],
+  'cursive': ['Comic Sans MS', 'Caveat', 'Dancing Script'],
+  'fantasy': ['Impact', 'Papyrus', 'Luckiest Guy'],
+  'math': ['STIX Two Math', 'Cambria Math', 'Noto Serif'],
+  'emoji': ['Noto Color Emoji', 'Apple Color Emoji']
+};
+
+const GENERIC_ALIASES: { [alias: string]: string } = {
+  '-apple-system': 'system-ui',
+  'blinkmacsystemfont': 'system-ui',
+  'ui-sans-serif': 'sans-serif',
+  'ui-serif': 'serif',
+  'ui-monospace': 'monospace',
+  'ui-rounded': 'sans-serif'
+};
+
+export const DEFAULT_FONT: FontName = { family: 'Inter', style: 'Regular' };
+
+// Weight keywords in style names, longest first so that "SemiBold" is not read as "Bold"
+const STYLE_WEIGHTS: [string, number][] = [
+  ['extralight', 200], ['ultralight', 200], ['semibold', 600], ['demibold', 600], ['extrabold', 800],
+  ['ultrabold', 800], ['hairline', 100], ['thin', 100], ['light', 300], ['regular', 400], ['normal', 400],
+  ['book', 400], ['medium', 500], ['bold', 700], ['black', 900], ['heavy', 900]
+];
+
+// Width variants are only used when a family has nothing else
+const WIDTH_KEYWORDS = /condensed|expanded|narrow|wide|compressed/;
+
+interface StyleInfo {
+  style: string;
+  weight: number;
+  italic: boolean;
+  isWidthVariant: boolean;
+}
+
+/**
+ * Picks the Figma font for a CSS font-family stack, weight and style. The
+ * stack is tried in order against the fonts Figma has available, with the
+ * user's substitution table consulted first for every family and the
+ * generic families expanded into common fonts. Within the family the style
+ * is chosen by the CSS font matching rules for weight and italics. Fonts
+ * that differ from what the CSS asked for are recorded for a report.
+ */
+export class FontResolver {
+  private families: { [family: string]: { name: string; styles: StyleInfo[] } } | null = null;
+  private substitutions: { [family: string]: string } = {};
+  private report: FontSubstitution[] = [];
+  private loaded: { [font: string]: boolean } = {}; // false when loading failed
+
+  // Lists the available fonts once; later conversions reuse the list
+  private async loadAvailableFonts(): Promise<void> {
+    if (this.families) return;
+
+    const fonts = await figma.listAvailableFontsAsync();
+    const families: { [family: string]: { name: string; styles: StyleInfo[] } } = {};
+    for (const font of fonts) {
+      const key = font.fontName.family.toLowerCase();
+      if (!families[key]) families[key] = { name: font.fontName.family, styles: [] };
+      families[key].styles.push(this.parseStyleName(font.fontName.style));
+    }
+    this.families = families;
+  }
+
+  // CSS family name → Figma family name, as edited by the user
+  setSubstitutions(substitutions: { [family: string]: string }): void {
+    this.substitutions = {};
+    for (const family in substitutions) {
+      this.substitutions[family.trim().toLowerCase()] = substitutions[family].trim();
+    }
+  }
+
+  // The fonts used in place of the requested ones since the last call
+  takeReport(): FontSubstitution[] {
+    const report = this.report;
+    this.report = [];
+    return report;
+  }
+
+  /**
+   * Loads the fonts for a set of requests in parallel. Fonts stay loaded for
+   * the session, so a later conversion only loads the fonts that are new.
+   */
+  async loadFonts(requests: FontRequest[]): Promise<void> {
+    try {
+      await this.loadAvailableFonts();
+    } catch (error) {
+      console.warn('无法获取可用字体列表，使用默认字体:', error);
+    }
+
+    const fonts: FontName[] = [];
+    const pending: { [font: string]: boolean } = {};
+    for (const font of [DEFAULT_FONT].concat(requests.map(request => this.match(request)))) {
+      const key = this.getKey(font);
+      if (this.loaded[key] === undefined && !pending[key]) {
+        pending[key] = true;
+        fonts.push(font);
+      }
+    }
+
+    await Promise.all(fonts.map(font => figma.loadFontAsync(font).then(
+      () => { this.loaded[this.getKey(font)] = true; },
+      error => {
+        console.warn('字体加载失败，使用默认字体:', font, error);
+        this.loaded[this.getKey(font)] = false;
+      }
+    )));
+  }
+
+  // The font for a request, which loadFonts must have loaded; otherwise the default font
+  resolve(request: FontRequest): FontName {
+    const font = this.match(request);
+    const usable = this.loaded[this.getKey(font)] ? font : DEFAULT_FONT;
+    this.record(this.parseFamilyList(request.family), request, usable);
+    return usable;
+  }
+
+  private match(request: FontRequest): FontName {
+    const stack = this.parseFamilyList(request.family);
+    let font: FontName | null = null;
+
+    for (const family of stack) {
+      const candidates = this.substitutions[family.toLowerCase()] !== undefined
+        ? [this.substitutions[family.toLowerCase()]]
+        : this.expandGeneric(family);
+      for (const candidate of candidates) {
+        font = this.matchStyle(candidate, request.weight, request.italic);
+        if (font) break;
+      }
+      if (font) break;
+    }
+
+    return font || this.matchStyle(DEFAULT_FONT.family, request.weight, request.italic) || DEFAULT_FONT;
+  }
+
+  // font-weight as a number; bolder and lighter follow the CSS table relative to the parent weight
+  parseWeight(value: string | undefined, parentWeight = 400): number {
+    const keyword = (value || '').trim().toLowerCase();
+    if (keyword === 'normal' || !keyword) return 400;
+    if (keyword === 'bold') return 700;
+    if (keyword === 'bolder') return parentWeight < 350 ? 400 : parentWeight < 550 ? 700 : 900;
+    if (keyword === 'lighter') return parentWeight < 550 ? 100 : parentWeight < 750 ? 400 : 700;
+    const weight = parseFloat(keyword);
+    return isNaN(weight) ? 400 : Math.max(1, Math.min(1000, weight));
+  }
+
+  isItalic(fontStyle: string | undefined): boolean {
+    const style = (fontStyle || '').trim().toLowerCase();
+    return style === 'italic' || style.indexOf('oblique') === 0;
+  }
+
+  private getKey(font: FontName): string {
+    return `${font.family}\u0000${font.style}`;
+  }
+
+  private parseFamilyList(value: string): string[] {
+    return value.split(',')
+      .map(family => family.trim().replace(/^(['"])(.*)\1$/, '$2').trim())
+      .filter(family => family.length > 0);
+  }
+
+  private expandGeneric(family: string): string[] {
+    const key = family.toLowerCase();
+    const generic = GENERIC_ALIASES[key] || key;
+    return GENERIC_FAMILIES[generic] || [family];
+  }
+
+  private isGeneric(family: string): boolean {
+    const key = family.toLowerCase();
+    return GENERIC_FAMILIES[key] !== undefined || GENERIC_ALIASES[key] !== undefined;
+  }
+
+  /**
+   * The style of a family closest to the requested weight and italics,
+   * following CSS Fonts font matching: italics first, then for weights
+   * 400–500 the weights up to 500, then lighter, then heavier; lighter
+   * weights look lighter first and heavier weights heavier first.
+   */
+  private matchStyle(familyName: string, weight: number, italic: boolean): FontName | null {
+    const family = this.families ? this.families[familyName.toLowerCase()] : null;
+    if (!family || family.styles.length === 0) return null;
+
+    let candidates = family.styles.filter(style => !style.isWidthVariant);
+    if (candidates.length === 0) candidates = family.styles;
+    const sameSlant = candidates.filter(style => style.italic === italic);
+    if (sameSlant.length > 0) candidates = sameSlant;
+
+    const distance = (candidate: number): number => {
+      if (candidate === weight) return 0;
+      if (weight >= 400 && weight <= 500) {
+        if (candidate > weight && candidate <= 500) return candidate - weight;
+        if (candidate < weight) return 1000 + weight - candidate;
+        return 2000 + candidate;
+      }
+      if (weight < 400) {
+        return candidate < weight ? weight - candidate : 1000 + candidate;
+      }
+      return candidate > weight ? candidate - weight : 1000 + weight - candidate;
+    };
+
+    const best = candidates.reduce((best, style) => (distance(style.weight) < distance(best.weight) ? style : best));
+    return { family: family.name, style: best.style };
+  }
+
+  private parseStyleName(style: string): StyleInfo {
+    const name = style.toLowerCase().replace(/[\s_-]+/g, '');
+    const match = STYLE_WEIGHTS.filter(entry => name.indexOf(entry[0]) !== -1)[0];
+    return {
+      style,
+      weight: match ? match[1] : 400,
+      italic: /italic|oblique/.test(name),
+      isWidthVariant: WIDTH_KEYWORDS.test(name)
+    };
+  }
+
+  private record(stack: string[], request: FontRequest, font: FontName): void {
+    // A stack of generic families asks for no font in particular
+    const first = stack[0];
+    if (!first || this.isGeneric(first)) return;
+
+    const style = this.parseStyleName(font.style);
+    if (first.toLowerCase() === font.family.toLowerCase() && style.weight === request.weight && style.italic === request.italic) {
+      return;
+    }
+
+    const requested = `${first} ${request.weight}${request.italic ? ' italic' : ''}`;
+    const used = `${font.family} ${font.style}`;
+    if (!this.report.some(entry => entry.requested === requested && entry.used === used)) {
+      this.report.push({ requested, used });
+    }
+  }
+}
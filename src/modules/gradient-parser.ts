@@ -0,0 +1,464 @@
+import { RGBA } from '../types';
+import { ColorParser } from './color-parser';
+import { splitValues } from './css-split';
+
+// A color stop before positions are resolved; position is a fraction of the gradient line
+interface StopValue {
+  color: RGBA;
+  position: number | null;
+}
+
+type GradientType = 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR';
+
+const GRADIENT_FUNCTION = /^(repeating-)?(linear|radial|conic)-gradient\((.*)\)$/i;
+
+const ANGLES: { [unit: string]: number } = {
+  deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360
+};
+
+// `to <side>` directions as CSS angles
+const SIDE_ANGLES: { [side: string]: number } = { top: 0, right: 90, bottom: 180, left: 270 };
+
+const RADIAL_EXTENTS = ['closest-side', 'closest-corner', 'farthest-side', 'farthest-corner'];
+
+// Repeating gradients are unrolled into plain stops; very short periods are capped
+const MAX_REPETITIONS = 50;
+
+/**
+ * Converts CSS `linear-gradient()`, `radial-gradient()` and
+ * `conic-gradient()`, including their `repeating-` forms, into Figma
+ * gradient paints. The gradient geometry depends on the box it is drawn in,
+ * so the size of the node is needed: Figma positions gradients in the
+ * node's unit square, where angles are distorted for non-square boxes.
+ */
+export class GradientParser {
+  private colorParser = new ColorParser();
+
+  isGradient(value: string): boolean {
+    return GRADIENT_FUNCTION.test(value.trim());
+  }
+
+  // null when the value is not a gradient or cannot be converted
+  parse(value: string, width: number, height: number, currentColor?: string): GradientPaint | null {
+    const match = GRADIENT_FUNCTION.exec(value.trim());
+    if (!match || width <= 0 || height <= 0) return null;
+
+    const repeating = !!match[1];
+    const kind = match[2].toLowerCase();
+    const args = splitValues(match[3], ',');
+
+    switch (kind) {
+      case 'linear':
+        return this.parseLinear(args, width, height, repeating, currentColor);
+      case 'radial':
+        return this.parseRadial(args, width, height, repeating, currentColor);
+      default:
+        return this.parseConic(args, width, height, repeating, currentColor);
+    }
+  }
+
+  // linear-gradient([<angle> | to <side-or-corner>]?, <color-stop-list>)
+  private parseLinear(
+    args: string[],
+    width: number,
+    height: number,
+    repeating: boolean,
+    currentColor?: string
+  ): GradientPaint | null {
+    let angle = 180;
+    const first = args[0].toLowerCase();
+    if (first.indexOf('to ') === 0) {
+      const direction = this.parseDirection(first.slice(3).trim().split(/\s+/), width, height);
+      if (direction === null) return null;
+      angle = direction;
+      args = args.slice(1);
+    } else {
+      const parsed = this.parseAngle(first);
+      if (parsed !== null) {
+        angle = parsed;
+        args = args.slice(1);
+      }
+    }
+
+    // The gradient line runs through the center and is long enough for the corners to get the end colors
+    const radians = angle * Math.PI / 180;
+    const dx = Math.sin(radians);
+    const dy = -Math.cos(radians);
+    const length = Math.abs(width * dx) + Math.abs(height * dy);
+
+    const stops = this.parseStops(args, length, currentColor, false);
+    if (!stops) return null;
+
+    const start = { x: width / 2 - dx * length / 2, y: height / 2 - dy * length / 2 };
+    // Gradient space (0, 0.5) → start, (1, 0.5) → end, (0, 1) along the perpendicular
+    const u = { x: dx * length, y: dy * length };
+    const v = { x: -u.y, y: u.x };
+    return this.createPaint('GRADIENT_LINEAR', stops, repeating, width, height,
+      u, v, { x: start.x - v.x / 2, y: start.y - v.y / 2 });
+  }
+
+  // radial-gradient([<shape> || <size>]? [at <position>]?, <color-stop-list>)
+  private parseRadial(
+    args: string[],
+    width: number,
+    height: number,
+    repeating: boolean,
+    currentColor?: string
+  ): GradientPaint | null {
+    let shape = 'ellipse';
+    let extent = 'farthest-corner';
+    const explicitSize: string[] = [];
+    let center = { x: width / 2, y: height / 2 };
+
+    const tokens = args[0].toLowerCase().split(/\s+/);
+    // Without a shape, size or position the first argument is already a color stop
+    if (!this.colorParser.parse(splitValues(args[0], ' ')[0], currentColor)) {
+      const atIndex = tokens.indexOf('at');
+      const shapeTokens = atIndex === -1 ? tokens : tokens.slice(0, atIndex);
+      for (const token of shapeTokens) {
+        if (token === 'circle' || token === 'ellipse') shape = token;
+        else if (RADIAL_EXTENTS.indexOf(token) !== -1) extent = token;
+        else explicitSize.push(token);
+      }
+      if (atIndex !== -1) {
+        const position = this.parsePosition(tokens.slice(atIndex + 1), width, height);
+        if (!position) return null;
+        center = position;
+      }
+      // A single length means a circle
+      if (explicitSize.length === 1 && shape === 'ellipse' && shapeTokens.indexOf('ellipse') === -1) shape = 'circle';
+      args = args.slice(1);
+    }
+
+    let radiusX: number;
+    let radiusY: number;
+    if (explicitSize.length > 0) {
+      const sizes = explicitSize.map((size, i) => this.parseLength(size, i === 0 ? width : height));
+      if (sizes.some(size => size === null) || sizes.length > 2) return null;
+      radiusX = sizes[0] as number;
+      radiusY = shape === 'circle' ? radiusX : (sizes[1] !== undefined ? sizes[1] as number : radiusX);
+    } else {
+      const radii = this.getRadialExtent(shape, extent, center, width, height);
+      radiusX = radii.x;
+      radiusY = radii.y;
+    }
+    // Zero radii would make the transform singular
+    radiusX = Math.max(radiusX, 0.01);
+    radiusY = Math.max(radiusY, 0.01);
+
+    const stops = this.parseStops(args, radiusX, currentColor, false);
+    if (!stops) return null;
+
+    // Gradient space (0.5, 0.5) → center, (1, 0.5) → end of the horizontal radius
+    const u = { x: radiusX * 2, y: 0 };
+    const v = { x: 0, y: radiusY * 2 };
+    return this.createPaint('GRADIENT_RADIAL', stops, repeating, width, height,
+      u, v, { x: center.x - radiusX, y: center.y - radiusY });
+  }
+
+  // conic-gradient([from <angle>]? [at <position>]?, <angular-color-stop-list>)
+  private parseConic(
+    args: string[],
+    width: number,
+    height: number,
+    repeating: boolean,
+    currentColor?: string
+  ): GradientPaint | null {
+    let angle = 0;
+    let center = { x: width / 2, y: height / 2 };
+
+    const tokens = args[0].toLowerCase().split(/\s+/);
+    if (tokens[0] === 'from' || tokens[0] === 'at') {
+      const atIndex = tokens.indexOf('at');
+      if (tokens[0] === 'from') {
+        const parsed = this.parseAngle(tokens[1] || '');
+        if (parsed === null) return null;
+        angle = parsed;
+      }
+      if (atIndex !== -1) {
+        const position = this.parsePosition(tokens.slice(atIndex + 1), width, height);
+        if (!position) return null;
+        center = position;
+      }
+      args = args.slice(1);
+    }
+
+    const stops = this.parseStops(args, 360, currentColor, true);
+    if (!stops) return null;
+
+    // Gradient space (1, 0.5) points at the start angle; the sweep runs clockwise towards (0.5, 1)
+    const radius = Math.max(width, height);
+    const radians = angle * Math.PI / 180;
+    const u = { x: Math.sin(radians) * radius, y: -Math.cos(radians) * radius };
+    const v = { x: -u.y, y: u.x };
+    return this.createPaint('GRADIENT_ANGULAR', stops, repeating, width, height,
+      u, v, { x: center.x - (u.x + v.x) / 2, y: center.y - (u.y + v.y) / 2 });
+  }
+
+  /**
+   * Builds the paint from the mapping of gradient space into the box:
+   * `u` and `v` are the images of the gradient-space axes and `origin` the
+   * image of (0, 0), all in px. Figma wants the inverse, in unit coordinates.
+   */
+  private createPaint(
+    type: GradientType,
+    stops: StopValue[],
+    repeating: boolean,
+    width: number,
+    height: number,
+    u: { x: number; y: number },
+    v: { x: number; y: number },
+    origin: { x: number; y: number }
+  ): GradientPaint | null {
+    const a = u.x / width;
+    const b = v.x / width;
+    const c = origin.x / width;
+    const d = u.y / height;
+    const e = v.y / height;
+    const f = origin.y / height;
+    const determinant = a * e - b * d;
+    if (Math.abs(determinant) < 1e-9) return null;
+
+    const gradientTransform: Transform = [
+      [e / determinant, -b / determinant, (b * f - c * e) / determinant],
+      [-d / determinant, a / determinant, (c * d - a * f) / determinant]
+    ];
+
+    const resolved = this.resolvePositions(stops);
+    const gradientStops = repeating ? this.repeatStops(resolved) : this.clipStops(resolved);
+    return { type, gradientTransform, gradientStops };
+  }
+
+  private parseStops(
+    args: string[],
+    lineLength: number,
+    currentColor: string | undefined,
+    angular: boolean
+  ): StopValue[] | null {
+    const stops: StopValue[] = [];
+
+    for (const arg of args) {
+      const tokens = splitValues(arg, ' ');
+      // Interpolation hints (a bare position between stops) are approximated as linear
+      if (tokens.length === 1 && this.parseStopPosition(tokens[0], lineLength, angular) !== null) continue;
+
+      const color = this.colorParser.parse(tokens[0], currentColor);
+      if (!color || tokens.length > 3) return null;
+
+      const positions = tokens.slice(1).map(token => this.parseStopPosition(token, lineLength, angular));
+      if (positions.some(position => position === null)) return null;
+
+      // A stop with two positions is two stops of the same color
+      if (positions.length === 0) stops.push({ color, position: null });
+      for (const position of positions) stops.push({ color, position });
+    }
+
+    return stops.length >= 2 ? stops : (stops.length === 1 ? [stops[0], { color: stops[0].color, position: null }] : null);
+  }
+
+  private parseStopPosition(token: string, lineLength: number, angular: boolean): number | null {
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z%]*)$/i.exec(token);
+    if (!match) return null;
+    const value = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+
+    if (unit === '%') return value / 100;
+    if (angular) {
+      if (ANGLES[unit] !== undefined) return value * ANGLES[unit] / 360;
+      return unit === '' && value === 0 ? 0 : null;
+    }
+    if (unit === 'px' || (unit === '' && value === 0)) return lineLength > 0 ? value / lineLength : 0;
+    return null;
+  }
+
+  /**
+   * Fixes up stop positions as CSS does: the first and last default to 0 and
+   * 1, a position never goes back before an earlier one, and runs of stops
+   * without positions are spread evenly between their neighbours.
+   */
+  private resolvePositions(stops: StopValue[]): ColorStop[] {
+    const positions = stops.map(stop => stop.position);
+    if (positions[0] === null) positions[0] = 0;
+    if (positions[positions.length - 1] === null) positions[positions.length - 1] = 1;
+
+    let max = positions[0] as number;
+    for (let i = 1; i < positions.length; i++) {
+      const position = positions[i];
+      if (position !== null) {
+        max = Math.max(max, position);
+        positions[i] = max;
+      }
+    }
+
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] !== null) continue;
+      let next = i;
+      while (positions[next] === null) next++;
+      const from = positions[i - 1] as number;
+      const to = positions[next] as number;
+      for (let j = i; j < next; j++) {
+        positions[j] = from + (to - from) * (j - i + 1) / (next - i + 1);
+      }
+    }
+
+    return stops.map((stop, i) => ({ color: stop.color, position: positions[i] as number }));
+  }
+
+  // Figma stops must lie in [0, 1]; stops outside are replaced by the colors at the ends
+  private clipStops(stops: ColorStop[]): ColorStop[] {
+    const first = stops[0].position;
+    const last = stops[stops.length - 1].position;
+    const inside = stops.filter(stop => stop.position >= 0 && stop.position <= 1);
+
+    if (first < 0) inside.unshift({ color: this.colorAt(stops, 0), position: 0 });
+    if (last > 1) inside.push({ color: this.colorAt(stops, 1), position: 1 });
+    if (inside.length === 0) {
+      // The whole line lies before the first stop or after the last
+      const color = last < 0 ? stops[stops.length - 1].color : stops[0].color;
+      return [{ color, position: 0 }, { color, position: 1 }];
+    }
+    return inside.map(stop => ({ color: stop.color, position: this.round(stop.position) }));
+  }
+
+  // Unrolls a repeating gradient by tiling its stops over [0, 1]
+  private repeatStops(stops: ColorStop[]): ColorStop[] {
+    const start = stops[0].position;
+    const period = stops[stops.length - 1].position - start;
+    if (period <= 0 || 1 / period > MAX_REPETITIONS) {
+      // Too fine to tile: browsers render the average color, the middle stop is close enough
+      const color = stops[Math.floor(stops.length / 2)].color;
+      return [{ color, position: 0 }, { color, position: 1 }];
+    }
+
+    const tiled: ColorStop[] = [];
+    const firstTile = Math.floor((0 - start) / period);
+    const lastTile = Math.ceil((1 - start) / period);
+    for (let tile = firstTile; tile <= lastTile; tile++) {
+      for (const stop of stops) {
+        tiled.push({ color: stop.color, position: stop.position + tile * period });
+      }
+    }
+    return this.clipStops(tiled);
+  }
+
+  private colorAt(stops: ColorStop[], position: number): RGBA {
+    if (position <= stops[0].position) return stops[0].color;
+    for (let i = 1; i < stops.length; i++) {
+      const previous = stops[i - 1];
+      const next = stops[i];
+      if (position <= next.position) {
+        const span = next.position - previous.position;
+        const t = span > 0 ? (position - previous.position) / span : 1;
+        return {
+          r: previous.color.r + (next.color.r - previous.color.r) * t,
+          g: previous.color.g + (next.color.g - previous.color.g) * t,
+          b: previous.color.b + (next.color.b - previous.color.b) * t,
+          a: previous.color.a + (next.color.a - previous.color.a) * t
+        };
+      }
+    }
+    return stops[stops.length - 1].color;
+  }
+
+  // `to right`, `to top left`, ...; corners depend on the aspect ratio of the box
+  private parseDirection(sides: string[], width: number, height: number): number | null {
+    if (sides.length === 1) {
+      return SIDE_ANGLES[sides[0]] !== undefined ? SIDE_ANGLES[sides[0]] : null;
+    }
+    if (sides.length !== 2) return null;
+
+    const horizontal = sides.indexOf('left') !== -1 ? -1 : sides.indexOf('right') !== -1 ? 1 : 0;
+    const vertical = sides.indexOf('top') !== -1 ? -1 : sides.indexOf('bottom') !== -1 ? 1 : 0;
+    if (!horizontal || !vertical) return null;
+
+    // Perpendicular to the diagonal between the two neighbouring corners
+    const degrees = Math.atan2(horizontal * height, -vertical * width) * 180 / Math.PI;
+    return (degrees + 360) % 360;
+  }
+
+  private parseAngle(value: string): number | null {
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)$/.exec(value);
+    if (!match) return value === '0' ? 0 : null;
+    return parseFloat(match[1]) * ANGLES[match[2]];
+  }
+
+  // <position> as in `at <position>`: keywords, lengths and percentages, one to four values
+  private parsePosition(tokens: string[], width: number, height: number): { x: number; y: number } | null {
+    const keywords: { [keyword: string]: { axis: 'x' | 'y' | 'either'; fraction: number } } = {
+      left: { axis: 'x', fraction: 0 }, right: { axis: 'x', fraction: 1 },
+      top: { axis: 'y', fraction: 0 }, bottom: { axis: 'y', fraction: 1 },
+      center: { axis: 'either', fraction: 0.5 }
+    };
+    const position = { x: width / 2, y: height / 2 };
+
+    if (tokens.length === 1 || tokens.length === 2) {
+      // A lone vertical keyword or a vertical keyword first swaps the axes
+      const swap = (keywords[tokens[0]] && keywords[tokens[0]].axis === 'y') ||
+        (tokens.length === 2 && keywords[tokens[1]] && keywords[tokens[1]].axis === 'x');
+      const ordered = swap ? [tokens[1] || 'center', tokens[0]] : [tokens[0], tokens[1] || 'center'];
+
+      const x = keywords[ordered[0]] ? keywords[ordered[0]].fraction * width : this.parseLength(ordered[0], width);
+      const y = keywords[ordered[1]] ? keywords[ordered[1]].fraction * height : this.parseLength(ordered[1], height);
+      if (x === null || y === null) return null;
+      return { x, y };
+    }
+
+    // Keyword-offset pairs: `right 10px bottom 20%`; `center` takes whichever axis is left
+    const pairs: { keyword: string; offset: string | null }[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (!keywords[tokens[i]]) return null;
+      const hasOffset = tokens[i + 1] !== undefined && !keywords[tokens[i + 1]];
+      pairs.push({ keyword: tokens[i], offset: hasOffset ? tokens[++i] : null });
+    }
+
+    const assigned: { [axis: string]: boolean } = {};
+    for (const pair of pairs) {
+      const axis = keywords[pair.keyword].axis;
+      if (axis !== 'either') assigned[axis] = true;
+    }
+
+    for (const pair of pairs) {
+      const keyword = keywords[pair.keyword];
+      const axis = keyword.axis !== 'either' ? keyword.axis : (assigned.x ? 'y' : 'x');
+      assigned[axis] = true;
+      const size = axis === 'x' ? width : height;
+      const offset = pair.offset !== null ? this.parseLength(pair.offset, size) : 0;
+      if (offset === null) return null;
+      position[axis] = keyword.fraction === 1 ? size - offset : keyword.fraction * size + offset;
+    }
+    return position;
+  }
+
+  private parseLength(value: string, percentBasis: number): number | null {
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+))(px|%)?$/.exec(value);
+    if (!match) return null;
+    return match[2] === '%' ? parseFloat(match[1]) / 100 * percentBasis : parseFloat(match[1]);
+  }
+
+  private getRadialExtent(
+    shape: string,
+    extent: string,
+    center: { x: number; y: number },
+    width: number,
+    height: number
+  ): { x: number; y: number } {
+    const left = Math.abs(center.x);
+    const right = Math.abs(width - center.x);
+    const top = Math.abs(center.y);
+    const bottom = Math.abs(height - center.y);
+    const closest = extent.indexOf('closest') === 0;
+    const sideX = closest ? Math.min(left, right) : Math.max(left, right);
+    const sideY = closest ? Math.min(top, bottom) : Math.max(top, bottom);
+
+    if (shape === 'circle') {
+      const radius = extent.indexOf('side') !== -1 ? (closest ? Math.min(sideX, sideY) : Math.max(sideX, sideY)) : Math.sqrt(sideX * sideX + sideY * sideY);
+      return { x: radius, y: radius };
+    }
+    // Corner ellipses keep the side ratio and pass through the corner
+    return extent.indexOf('side') !== -1 ? { x: sideX, y: sideY } : { x: sideX * Math.SQRT2, y: sideY * Math.SQRT2 };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
@@ -0,0 +1,442 @@
+import { splitValues } from './css-split';
+
+// A track as Figma sizes it: fixed pixels, a share of the free space (`fr`) or the size of its content
+export interface GridTrack {
+  type: 'FIXED' | 'FLEX' | 'HUG';
+  value: number; // Pixels for FIXED tracks, the `fr` factor for FLEX tracks
+  min: number; // The minimum of minmax(), in pixels
+}
+
+// The cells an item covers, 0-based
+export interface GridArea {
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+}
+
+export interface GridPlan {
+  columns: GridTrack[];
+  rows: GridTrack[];
+  columnGap: number;
+  rowGap: number;
+  areas: GridArea[]; // One per item, in the order the items were given
+  warnings: string[];
+}
+
+// One axis of the explicit grid: its tracks, line names and the tracks auto-fit may drop
+interface AxisTemplate {
+  tracks: GridTrack[];
+  lineNames: { [name: string]: number };
+  autoFit: number[]; // Indices of tracks repeated by auto-fit, which collapse when empty
+}
+
+// Named areas, as line indices; `end` is exclusive
+interface NamedArea {
+  rowStart: number;
+  rowEnd: number;
+  columnStart: number;
+  columnEnd: number;
+}
+
+// A grid-row or grid-column resolved as far as the styles allow; a null start is auto-placed
+interface AxisPlacement {
+  start: number | null;
+  span: number;
+}
+
+const HUG_TRACK: GridTrack = { type: 'HUG', value: 0, min: 0 };
+
+/**
+ * Works out a CSS grid: the explicit tracks from grid-template-columns,
+ * -rows and -areas, with repeat(), minmax() and auto-fill/auto-fit
+ * expanded against the container's size, and a cell for every item from
+ * its grid-row and grid-column, placing the rest by the auto-placement
+ * algorithm. Tracks beyond the explicit grid follow grid-auto-columns and
+ * grid-auto-rows. Node creation turns the plan into Figma layers.
+ */
+export class GridLayout {
+  /**
+   * `items` are the styles of the in-flow items in order-modified document
+   * order; anonymous text is null. Percentages and auto-fill resolve
+   * against the content size, which is null while it depends on content.
+   */
+  plan(
+    styles: { [property: string]: string },
+    items: ({ [property: string]: string } | null)[],
+    contentWidth: number | null,
+    contentHeight: number | null
+  ): GridPlan {
+    const warnings: string[] = [];
+    const columnGap = this.parseGap(styles['column-gap']);
+    const rowGap = this.parseGap(styles['row-gap']);
+
+    const namedAreas = this.parseAreas(styles['grid-template-areas'], warnings);
+    const columns = this.parseTemplate(styles['grid-template-columns'], contentWidth, columnGap);
+    const rows = this.parseTemplate(styles['grid-template-rows'], contentHeight, rowGap);
+
+    // Areas extend the explicit grid where the templates have fewer tracks
+    for (const name in namedAreas) {
+      while (columns.tracks.length < namedAreas[name].columnEnd) columns.tracks.push(HUG_TRACK);
+      while (rows.tracks.length < namedAreas[name].rowEnd) rows.tracks.push(HUG_TRACK);
+    }
+
+    if (/column/.test(styles['grid-auto-flow'] || '')) {
+      warnings.push('grid-auto-flow: column 暂不支持，网格项目已按行自动排列');
+    }
+
+    const areas = this.placeItems(items, columns, rows, namedAreas);
+    const autoColumns = this.parseTrackList(styles['grid-auto-columns'], contentWidth);
+    const autoRows = this.parseTrackList(styles['grid-auto-rows'], contentHeight);
+    const columnCount = Math.max(1, areas.reduce((count, area) => Math.max(count, area.column + area.columnSpan), 0));
+    const rowCount = Math.max(1, areas.reduce((count, area) => Math.max(count, area.row + area.rowSpan), 0));
+
+    const plan: GridPlan = {
+      columns: this.withImplicitTracks(columns.tracks, Math.max(columnCount, columns.tracks.length), autoColumns),
+      rows: this.withImplicitTracks(rows.tracks, Math.max(rowCount, rows.tracks.length), autoRows),
+      columnGap,
+      rowGap,
+      areas,
+      warnings
+    };
+    this.collapseEmptyTracks(plan, columns.autoFit, true);
+    this.collapseEmptyTracks(plan, rows.autoFit, false);
+    return plan;
+  }
+
+  /**
+   * CSS Grid's auto-placement with `grid-auto-flow: row`: items fixed in
+   * both axes first, then those fixed to a row, then the rest in order
+   * behind a cursor that only moves forward, as the sparse algorithm does.
+   */
+  private placeItems(
+    items: ({ [property: string]: string } | null)[],
+    columns: AxisTemplate,
+    rows: AxisTemplate,
+    namedAreas: { [name: string]: NamedArea }
+  ): GridArea[] {
+    const placements = items.map(styles => ({
+      row: this.resolvePlacement(styles, 'row', rows, namedAreas),
+      column: this.resolvePlacement(styles, 'column', columns, namedAreas)
+    }));
+
+    // Auto-placed items may not leave the columns: the grid is as wide as any item needs
+    const columnCount = placements.reduce((count, placement) => Math.max(count,
+      placement.column.start !== null ? placement.column.start + placement.column.span : placement.column.span),
+    Math.max(columns.tracks.length, 1));
+
+    const occupied: { [cell: string]: boolean } = {};
+    const fits = (row: number, column: number, rowSpan: number, columnSpan: number) => {
+      if (column + columnSpan > columnCount) return false;
+      for (let r = row; r < row + rowSpan; r++) {
+        for (let c = column; c < column + columnSpan; c++) {
+          if (occupied[`${r},${c}`]) return false;
+        }
+      }
+      return true;
+    };
+
+    const areas: (GridArea | null)[] = items.map(() => null);
+    const place = (index: number, row: number, column: number) => {
+      const area = { row, column, rowSpan: placements[index].row.span, columnSpan: placements[index].column.span };
+      for (let r = row; r < row + area.rowSpan; r++) {
+        for (let c = column; c < column + area.columnSpan; c++) {
+          occupied[`${r},${c}`] = true;
+        }
+      }
+      areas[index] = area;
+    };
+
+    // Items placed in both axes may overlap each other, as in CSS
+    placements.forEach((placement, index) => {
+      if (placement.row.start !== null && placement.column.start !== null) {
+        place(index, placement.row.start, placement.column.start);
+      }
+    });
+
+    const rowCursors: { [row: number]: number } = {};
+    placements.forEach((placement, index) => {
+      const rowStart = placement.row.start;
+      if (rowStart === null || placement.column.start !== null) return;
+      let column = rowCursors[rowStart] || 0;
+      while (column < columnCount && !fits(rowStart, column, placement.row.span, placement.column.span)) column++;
+      if (column >= columnCount) column = 0; // No room left in the row: overlap at its start
+      place(index, rowStart, column);
+      rowCursors[rowStart] = column + placement.column.span;
+    });
+
+    let cursorRow = 0;
+    let cursorColumn = 0;
+    placements.forEach((placement, index) => {
+      if (placement.row.start !== null) return;
+      const { row, column } = placement;
+      if (column.start !== null) {
+        if (column.start < cursorColumn) cursorRow++;
+        cursorColumn = column.start;
+        while (!fits(cursorRow, cursorColumn, row.span, column.span)) cursorRow++;
+      } else {
+        for (;;) {
+          if (cursorColumn + column.span > columnCount) {
+            cursorRow++;
+            cursorColumn = 0;
+          }
+          if (fits(cursorRow, cursorColumn, row.span, column.span)) break;
+          cursorColumn++;
+        }
+      }
+      place(index, cursorRow, cursorColumn);
+      cursorColumn += column.span;
+    });
+
+    return areas.map(area => area || { row: 0, column: 0, rowSpan: 1, columnSpan: 1 });
+  }
+
+  // grid-row-start/-end or grid-column-start/-end, made into a start line and a span
+  private resolvePlacement(
+    styles: { [property: string]: string } | null,
+    axis: 'row' | 'column',
+    template: AxisTemplate,
+    namedAreas: { [name: string]: NamedArea }
+  ): AxisPlacement {
+    if (!styles) return { start: null, span: 1 };
+    const start = this.resolveLine(styles[`grid-${axis}-start`], 'start', axis, template, namedAreas);
+    const end = this.resolveLine(styles[`grid-${axis}-end`], 'end', axis, template, namedAreas);
+
+    if (start.line !== null && end.line !== null) {
+      const first = Math.min(start.line, end.line);
+      return { start: first, span: Math.max(1, Math.abs(end.line - start.line)) };
+    }
+    if (start.line !== null) return { start: start.line, span: end.span || 1 };
+    if (end.line !== null) {
+      const span = start.span || 1;
+      return { start: Math.max(0, end.line - span), span };
+    }
+    return { start: null, span: start.span || end.span || 1 };
+  }
+
+  // A grid line: a number, negative from the end, `span n`, an area or a line name
+  private resolveLine(
+    value: string | undefined,
+    side: 'start' | 'end',
+    axis: 'row' | 'column',
+    template: AxisTemplate,
+    namedAreas: { [name: string]: NamedArea }
+  ): { line: number | null; span: number | null } {
+    const trimmed = (value || 'auto').trim();
+    if (trimmed === 'auto') return { line: null, span: null };
+
+    const span = /^span\s+(\d+)$/.exec(trimmed);
+    if (span) return { line: null, span: Math.max(1, parseInt(span[1], 10)) };
+    if (/^span\s/.test(trimmed)) return { line: null, span: 1 };
+
+    if (/^-?\d+$/.test(trimmed)) {
+      const number = parseInt(trimmed, 10);
+      if (number === 0) return { line: null, span: null };
+      const line = number > 0 ? number - 1 : template.tracks.length + 1 + number;
+      return { line: Math.max(0, line), span: null };
+    }
+
+    // `header` names the area's edge on this side; `header-start` and `header-end` name one edge
+    const suffix = /^(.+)-(start|end)$/.exec(trimmed);
+    const areaName = namedAreas[trimmed] ? trimmed : suffix && namedAreas[suffix[1]] ? suffix[1] : null;
+    if (areaName) {
+      const area = namedAreas[areaName];
+      const edge = areaName === trimmed ? side : (suffix as RegExpExecArray)[2];
+      const line = axis === 'row'
+        ? (edge === 'start' ? area.rowStart : area.rowEnd)
+        : (edge === 'start' ? area.columnStart : area.columnEnd);
+      return { line, span: null };
+    }
+    if (template.lineNames[trimmed] !== undefined) {
+      return { line: template.lineNames[trimmed], span: null };
+    }
+    return { line: null, span: null };
+  }
+
+  /**
+   * grid-template-columns or -rows: line names in brackets are recorded,
+   * repeat() is expanded and auto-fill/auto-fit repeat as often as the
+   * tracks fit in the available size, or once when it is unknown.
+   */
+  private parseTemplate(value: string | undefined, available: number | null, gap: number): AxisTemplate {
+    const template: AxisTemplate = { tracks: [], lineNames: {}, autoFit: [] };
+    if (!value || value === 'none') return template;
+
+    const tokens = splitValues(value, ' ');
+    let autoRepeat: { tokens: string[]; isFit: boolean; index: number } | null = null;
+    const expanded: string[] = [];
+    for (const token of tokens) {
+      const repeat = /^repeat\(\s*([^,]+?)\s*,([\s\S]*)\)$/i.exec(token);
+      if (!repeat) {
+        expanded.push(token);
+        continue;
+      }
+      const inner = splitValues(repeat[2], ' ');
+      const count = repeat[1].toLowerCase();
+      if (count === 'auto-fill' || count === 'auto-fit') {
+        // The repetitions go at this index once their number is known
+        autoRepeat = { tokens: inner, isFit: count === 'auto-fit', index: expanded.length };
+      } else {
+        for (let i = 0; i < Math.max(1, parseInt(count, 10) || 1); i++) {
+          Array.prototype.push.apply(expanded, inner);
+        }
+      }
+    }
+
+    let repetitions = 1;
+    if (autoRepeat && available !== null) {
+      const others = expanded.filter(token => token.charAt(0) !== '[');
+      const repeated = autoRepeat.tokens.filter(token => token.charAt(0) !== '[');
+      const othersSize = others.reduce((sum, token) => sum + this.getDefiniteSize(token, available), 0);
+      const repeatedSize = repeated.reduce((sum, token) => sum + this.getDefiniteSize(token, available), 0);
+      const step = repeatedSize + gap * repeated.length;
+      if (repeatedSize > 0) {
+        repetitions = Math.max(1, Math.floor((available - othersSize - gap * others.length + gap) / step));
+      }
+    }
+
+    for (let index = 0; index <= expanded.length; index++) {
+      if (autoRepeat && autoRepeat.index === index) {
+        for (let i = 0; i < repetitions; i++) {
+          for (const inner of autoRepeat.tokens) {
+            if (autoRepeat.isFit && inner.charAt(0) !== '[') template.autoFit.push(template.tracks.length);
+            this.addTemplateToken(template, inner, available);
+          }
+        }
+      }
+      if (index < expanded.length) this.addTemplateToken(template, expanded[index], available);
+    }
+    return template;
+  }
+
+  private addTemplateToken(template: AxisTemplate, token: string, available: number | null): void {
+    if (token.charAt(0) === '[') {
+      for (const name of token.slice(1, -1).trim().split(/\s+/)) {
+        if (name && template.lineNames[name] === undefined) template.lineNames[name] = template.tracks.length;
+      }
+      return;
+    }
+    template.tracks.push(this.parseTrack(token, available));
+  }
+
+  // grid-auto-columns and grid-auto-rows; implicit tracks cycle through the list
+  private parseTrackList(value: string | undefined, available: number | null): GridTrack[] {
+    if (!value) return [HUG_TRACK];
+    const tracks = splitValues(value, ' ')
+      .filter(token => token.charAt(0) !== '[')
+      .map(token => this.parseTrack(token, available));
+    return tracks.length > 0 ? tracks : [HUG_TRACK];
+  }
+
+  private withImplicitTracks(explicit: GridTrack[], count: number, auto: GridTrack[]): GridTrack[] {
+    const tracks = explicit.slice();
+    while (tracks.length < count) {
+      tracks.push(auto[(tracks.length - explicit.length) % auto.length]);
+    }
+    return tracks;
+  }
+
+  /**
+   * One track size. minmax() keeps its minimum and sizes by its maximum;
+   * auto, min-content, max-content and fit-content() follow the content.
+   */
+  private parseTrack(token: string, available: number | null): GridTrack {
+    const minmax = /^minmax\(\s*([^,]+?)\s*,\s*(.+?)\s*\)$/i.exec(token);
+    if (minmax) {
+      const min = this.parseLength(minmax[1], available) || 0;
+      const max = this.parseTrack(minmax[2], available);
+      return max.type === 'FIXED' ? { type: 'FIXED', value: Math.max(max.value, min), min } : { type: max.type, value: max.value, min };
+    }
+
+    const fraction = /^([\d.]+)fr$/i.exec(token);
+    if (fraction) return { type: 'FLEX', value: parseFloat(fraction[1]), min: 0 };
+
+    const length = this.parseLength(token, available);
+    return length !== null ? { type: 'FIXED', value: length, min: length } : HUG_TRACK;
+  }
+
+  // The size a track is sure to take, which is what auto-fill counts with
+  private getDefiniteSize(token: string, available: number): number {
+    const track = this.parseTrack(token, available);
+    return track.type === 'FIXED' ? track.value : track.min;
+  }
+
+  private parseLength(value: string, available: number | null): number | null {
+    const match = /^(-?[\d.]+)(px|%)?$/.exec(value.trim());
+    if (!match) return null;
+    if (match[2] !== '%') return Math.max(0, parseFloat(match[1]));
+    return available !== null ? Math.max(0, parseFloat(match[1]) * available / 100) : null;
+  }
+
+  // `"a a b" "c d d"`: each string is a row, each name a cell; `.` is an empty cell
+  private parseAreas(value: string | undefined, warnings: string[]): { [name: string]: NamedArea } {
+    const areas: { [name: string]: NamedArea } = {};
+    if (!value || value === 'none') return areas;
+
+    const rows: string[][] = [];
+    const pattern = /"([^"]*)"|'([^']*)'/g;
+    let match;
+    while ((match = pattern.exec(value)) !== null) {
+      rows.push((match[1] !== undefined ? match[1] : match[2]).trim().split(/\s+/));
+    }
+
+    rows.forEach((cells, row) => {
+      cells.forEach((name, column) => {
+        if (/^\.+$/.test(name) || !name) return;
+        const area = areas[name];
+        if (!area) {
+          areas[name] = { rowStart: row, rowEnd: row + 1, columnStart: column, columnEnd: column + 1 };
+          return;
+        }
+        area.rowStart = Math.min(area.rowStart, row);
+        area.rowEnd = Math.max(area.rowEnd, row + 1);
+        area.columnStart = Math.min(area.columnStart, column);
+        area.columnEnd = Math.max(area.columnEnd, column + 1);
+      });
+    });
+
+    // An area must be a rectangle; CSS drops the whole declaration otherwise
+    for (const name in areas) {
+      const area = areas[name];
+      for (let row = area.rowStart; row < area.rowEnd; row++) {
+        for (let column = area.columnStart; column < area.columnEnd; column++) {
+          if (!rows[row] || rows[row][column] !== name) {
+            warnings.push(`grid-template-areas 中的 "${name}" 不是矩形，已忽略该属性`);
+            return {};
+          }
+        }
+      }
+    }
+    return areas;
+  }
+
+  // Tracks repeated by auto-fit that no item occupies collapse away
+  private collapseEmptyTracks(plan: GridPlan, autoFit: number[], isColumn: boolean): void {
+    const tracks = isColumn ? plan.columns : plan.rows;
+    const empty = autoFit.filter(index => !plan.areas.some(area => (isColumn
+      ? area.column <= index && index < area.column + area.columnSpan
+      : area.row <= index && index < area.row + area.rowSpan)));
+    if (empty.length === 0 || empty.length === tracks.length) return;
+
+    const kept = tracks.filter((track, index) => empty.indexOf(index) === -1);
+    const shift = (index: number) => empty.filter(removed => removed < index).length;
+    for (const area of plan.areas) {
+      if (isColumn) {
+        area.column -= shift(area.column);
+      } else {
+        area.row -= shift(area.row);
+      }
+    }
+    if (isColumn) {
+      plan.columns = kept;
+    } else {
+      plan.rows = kept;
+    }
+  }
+
+  // `normal` is no gap in grid layout
+  private parseGap(value: string | undefined): number {
+    const match = /^([\d.]+)(px)?$/.exec((value || '').trim());
+    return match ? parseFloat(match[1]) : 0;
+  }
+}
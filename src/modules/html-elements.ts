@@ -0,0 +1,35 @@
+import { ParsedElement } from '../types';
+
+// Elements that flow inside a line of text rather than forming their own box
+export const INLINE_TEXT_ELEMENTS = [
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'big', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em',
+  'font', 'i', 'ins', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strike',
+  'strong', 'sub', 'sup', 'time', 'tt', 'u', 'var'
+];
+
+// The tag name of the anonymous block that wraps text directly in <body>; the tokenizer never produces it
+export const ANONYMOUS_TEXT = '#text';
+
+// Block elements that render as a single text node when their content is inline-only
+export const TEXT_BLOCK_ELEMENTS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'pre'];
+
+// True when the element takes part in its parent's line of text
+export function isInlineDisplay(element: ParsedElement): boolean {
+  const display = element.styles.display;
+  return INLINE_TEXT_ELEMENTS.indexOf(element.tagName) !== -1 && (!display || display === 'inline');
+}
+
+// Displays whose auto width fills the containing block
+const BLOCK_DISPLAYS = ['block', 'flex', 'grid', 'list-item', 'table', 'flow-root'];
+
+// Form controls and images are inline-level boxes with shrink-to-fit or intrinsic widths
+export const INLINE_REPLACED_ELEMENTS = ['img', 'button', 'input', 'select', 'textarea', 'svg'];
+
+// True when an auto width fills the containing block rather than fitting the content
+export function fillsContainingBlock(styles: { [property: string]: string }, tagName: string): boolean {
+  if (styles.float && styles.float !== 'none') return false;
+  if (styles.position === 'absolute' || styles.position === 'fixed') return false;
+  const display = styles.display;
+  if (display) return BLOCK_DISPLAYS.indexOf(display) !== -1;
+  return INLINE_TEXT_ELEMENTS.indexOf(tagName) === -1 && INLINE_REPLACED_ELEMENTS.indexOf(tagName) === -1;
+}
@@ -0,0 +1,68 @@
+import { NAMED_ENTITIES, LEGACY_ENTITIES } from './html-entity-table';
+
+// Numeric references in the C1 range are read as windows-1252, as browsers do
+const WINDOWS_1252: { [code: number]: number } = {
+  0x80: 0x20AC, 0x82: 0x201A, 0x83: 0x0192, 0x84: 0x201E, 0x85: 0x2026, 0x86: 0x2020,
+  0x87: 0x2021, 0x88: 0x02C6, 0x89: 0x2030, 0x8A: 0x0160, 0x8B: 0x2039, 0x8C: 0x0152,
+  0x8E: 0x017D, 0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201C, 0x94: 0x201D, 0x95: 0x2022,
+  0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02DC, 0x99: 0x2122, 0x9A: 0x0161, 0x9B: 0x203A,
+  0x9C: 0x0153, 0x9E: 0x017E, 0x9F: 0x0178
+};
+
+const REPLACEMENT_CHARACTER = '\uFFFD';
+
+// Longest legacy name ("Agrave", "frac12", ...); no prefix search goes past it
+const MAX_LEGACY_LENGTH = 6;
+
+export class HtmlEntityDecoder {
+  /**
+   * Decodes named (`&copy;`), decimal (`&#8217;`) and hexadecimal (`&#x2019;`)
+   * character references. Inside attribute values a reference without its
+   * semicolon is left alone when it runs into letters, digits or `=`, so query
+   * strings such as `?a=1&copy=2` survive.
+   */
+  decode(text: string, inAttribute = false): string {
+    if (text.indexOf('&') === -1) return text;
+
+    return text.replace(/&(?:#[xX]([0-9a-fA-F]+);?|#([0-9]+);?|([A-Za-z][A-Za-z0-9]*)(;?))/g,
+      (match: string, hex: string, decimal: string, name: string, semicolon: string, offset: number) => {
+        if (hex !== undefined) {
+          return this.decodeCodePoint(parseInt(hex, 16));
+        }
+        if (decimal !== undefined) {
+          return this.decodeCodePoint(parseInt(decimal, 10));
+        }
+
+        if (semicolon && Object.prototype.hasOwnProperty.call(NAMED_ENTITIES, name)) {
+          return NAMED_ENTITIES[name];
+        }
+        return this.decodeLegacyPrefix(match, name, text.charAt(offset + match.length), inAttribute);
+      });
+  }
+
+  // Matches the longest semicolon-less legacy reference at the start of `name`
+  private decodeLegacyPrefix(match: string, name: string, nextChar: string, inAttribute: boolean): string {
+    for (let length = Math.min(name.length, MAX_LEGACY_LENGTH); length > 0; length--) {
+      const prefix = name.slice(0, length);
+      if (LEGACY_ENTITIES.indexOf(prefix) === -1) continue;
+
+      const rest = match.slice(length + 1);
+      const following = rest.charAt(0) || nextChar;
+      if (inAttribute && /[A-Za-z0-9=]/.test(following)) {
+        return match;
+      }
+      return NAMED_ENTITIES[prefix] + rest;
+    }
+    return match;
+  }
+
+  private decodeCodePoint(code: number): string {
+    if (WINDOWS_1252[code]) {
+      code = WINDOWS_1252[code];
+    }
+    if (isNaN(code) || code === 0 || code > 0x10FFFF || (code >= 0xD800 && code <= 0xDFFF)) {
+      return REPLACEMENT_CHARACTER;
+    }
+    return String.fromCodePoint(code);
+  }
+}
@@ -1,216 +1,278 @@
-import { SimpleElement, ParsedElement } from '../types';
+import { SimpleElement, SimpleNode, ParsedElement, ParsedNode, CssRule, CssDeclaration, Viewport, isTextNodeData } from '../types';
+import { HtmlTreeBuilder, StyleSheetSource } from './html-tree-builder';
+import { ANONYMOUS_TEXT, INLINE_TEXT_ELEMENTS } from './html-elements';
+import { WhitespaceProcessor } from './whitespace-processor';
+import { SelectorEngine } from './selector-engine';
+import { CssParser } from './css-parser';
+import { MediaQueryEvaluator, DEFAULT_VIEWPORT } from './media-query';
+import { StyleComputer, StyleContext, DEFAULT_FONT_SIZE } from './style-computer';
+import { ShorthandExpander } from './shorthand-expander';
+import { LengthResolver, ContainingBlock } from './length-resolver';
+import { LayoutEngine } from './layout-engine';
+
+// Document metadata that may appear outside <head> in loose markup
+const NON_RENDERED_ELEMENTS = ['title', 'meta', 'link', 'base'];
 
 export class HtmlParser {
+  private treeBuilder = new HtmlTreeBuilder();
+  private whitespaceProcessor = new WhitespaceProcessor();
+  private selectorEngine = new SelectorEngine();
+  private cssParser = new CssParser();
+  private mediaQueryEvaluator = new MediaQueryEvaluator();
+  private styleComputer = new StyleComputer();
+  private shorthandExpander = new ShorthandExpander();
+  private lengthResolver = new LengthResolver();
+  private layoutEngine = new LayoutEngine();
+
+  /**
+   * Returns the content of <body>. Text directly in the body, together with
+   * the inline elements around it, is wrapped in an anonymous element for
+   * each run, which becomes one text node like the runs inside a block.
+   */
   parseHtmlString(html: string): SimpleElement[] {
     try {
-      // Extract and parse CSS styles first
-      const cssStyles = this.extractCssStyles(html);
-      
-      // Remove comments, scripts, and styles
-      html = html.replace(/<!--[\s\S]*?-->/g, '');
-      html = html.replace(/<script[\s\S]*?<\/script>/gi, '');
-      html = html.replace(/<style[\s\S]*?<\/style>/gi, '');
-      
-      // Extract body content if present
-      const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-      if (bodyMatch) {
-        html = bodyMatch[1];
-      }
-      
-      const elements = this.parseElements(html, cssStyles);
-      
-      // If no elements found in body, try to parse the entire document
-      if (elements.length === 0) {
-        return this.parseElements(html, cssStyles);
+      const body = this.findElement(this.treeBuilder.build(html), 'body');
+      if (!body) return [];
+
+      const content: SimpleElement[] = [];
+      let run: SimpleNode[] = [];
+      const flushRun = () => {
+        if (run.some(node => this.getText(node).trim())) {
+          content.push(this.createAnonymousText(body, run));
+        }
+        run = [];
+      };
+
+      for (const node of body.childNodes) {
+        if (isTextNodeData(node) || INLINE_TEXT_ELEMENTS.indexOf(node.tagName) !== -1) {
+          run.push(node);
+        } else if (NON_RENDERED_ELEMENTS.indexOf(node.tagName) === -1) {
+          flushRun();
+          content.push(node);
+        }
       }
-      
-      return elements;
+      flushRun();
+
+      return content;
     } catch (error) {
       console.error('解析HTML字符串时出错:', error);
       return [];
     }
   }
 
-  extractCssStyles(html: string): { [selector: string]: { [property: string]: string } } {
-    const styles: { [selector: string]: { [property: string]: string } } = {};
+  extractCssStyles(html: string, viewport: Viewport = DEFAULT_VIEWPORT): CssRule[] {
+    const rules: CssRule[] = [];
     
-    // Extract CSS from <style> tags
-    const styleMatches = html.match(/<style[^>]*>([\s\S]*?)<\/style>/gi);
-    if (styleMatches) {
-      for (const styleMatch of styleMatches) {
-        const cssContent = styleMatch.replace(/<\/?style[^>]*>/gi, '');
-        this.parseCssRules(cssContent, styles);
-      }
+    // The tree builder keeps the <style> sheets aside; text in scripts, templates and the like is not one
+    const roots = this.treeBuilder.build(html);
+    const sheets = this.treeBuilder.getStyleSheets().slice();
+
+    // A <style> inside SVG stays in the tree but applies to the whole document
+    this.collectForeignStyles(roots, sheets);
+
+    for (const sheet of sheets) {
+      if (sheet.media && !this.mediaQueryEvaluator.matches(sheet.media, viewport)) continue;
+      this.cssParser.parseStylesheet(sheet.text, viewport, rules);
     }
     
-    return styles;
+    return rules;
   }
 
-  private parseCssRules(css: string, styles: { [selector: string]: { [property: string]: string } }): void {
-    // Simple CSS parser - handles basic selectors and properties
-    const ruleRegex = /([^{]+)\{([^}]+)\}/g;
-    let match;
-    
-    while ((match = ruleRegex.exec(css)) !== null) {
-      const selector = match[1].trim();
-      const declarations = match[2];
-      
-      const properties: { [property: string]: string } = {};
-      const declarationRegex = /([^:;]+):\s*([^;]+)/g;
-      let declMatch;
-      
-      while ((declMatch = declarationRegex.exec(declarations)) !== null) {
-        const property = declMatch[1].trim();
-        const value = declMatch[2].trim();
-        properties[property] = value;
+  private collectForeignStyles(elements: SimpleElement[], sheets: StyleSheetSource[]): void {
+    for (const element of elements) {
+      if (element.tagName === 'style') {
+        sheets.push({ text: element.childNodes.map(node => this.getText(node)).join(''), media: element.attributes.media || '' });
+      } else {
+        this.collectForeignStyles(element.children, sheets);
       }
-      
-      styles[selector] = properties;
     }
   }
 
-  private parseElements(html: string, cssStyles: { [selector: string]: { [property: string]: string } } = {}): SimpleElement[] {
-    const elements: SimpleElement[] = [];
-    const tagRegex = /<(\w+)([^>]*?)(?:\s*\/\s*>|>([\s\S]*?)<\/\1>)/g;
-    
-    let match;
-    while ((match = tagRegex.exec(html)) !== null) {
-      const tagName = match[1].toLowerCase();
-      const attributesStr = match[2];
-      const content = match[3] || '';
-      
-      // Skip script and style tags
-      if (tagName === 'script' || tagName === 'style') {
-        continue;
-      }
-      
-      const attributes = this.parseAttributes(attributesStr);
-      
-      const element: SimpleElement = {
-        tagName,
-        attributes,
-        textContent: this.extractTextContent(content),
-        children: this.parseElements(content, cssStyles)
-      };
-      
-      elements.push(element);
+  private findElement(elements: SimpleElement[], tagName: string): SimpleElement | null {
+    for (const element of elements) {
+      if (element.tagName === tagName) return element;
+      const found = this.findElement(element.children, tagName);
+      if (found) return found;
     }
-    
-    return elements;
+    return null;
   }
 
-  private parseAttributes(attributesStr: string): { [key: string]: string } {
-    const attributes: { [key: string]: string } = {};
-    const attrRegex = /(\w+)(?:\s*=\s*["']([^"']*)["'])?/g;
-    
-    let match;
-    while ((match = attrRegex.exec(attributesStr)) !== null) {
-      attributes[match[1]] = match[2] || '';
+  // The anonymous block around a run of loose content; its nodes keep the body as their parent
+  private createAnonymousText(body: SimpleElement, nodes: SimpleNode[]): SimpleElement {
+    return {
+      tagName: ANONYMOUS_TEXT,
+      attributes: {},
+      textContent: nodes.map(node => this.getText(node)).join('').trim(),
+      children: nodes.filter((node): node is SimpleElement => !isTextNodeData(node)),
+      childNodes: nodes,
+      parent: body
+    };
+  }
+
+  private getText(node: SimpleNode): string {
+    return isTextNodeData(node) ? node.text : node.textContent;
+  }
+
+  convertToParseElement(
+    element: SimpleElement,
+    cssRules: CssRule[] = [],
+    viewport: Viewport = DEFAULT_VIEWPORT,
+    rootFontSize: number = DEFAULT_FONT_SIZE
+  ): ParsedElement {
+    // rootFontSize is the browser's default font size; rem follows <html> once its styles are known
+    const context: StyleContext = { viewport, defaultFontSize: rootFontSize, rootFontSize };
+
+    // Top-level elements inherit from <body> and <html>, which are not converted themselves
+    const { styles: parentStyles, containingBlock, positionedBlock } = this.computeAncestorStyles(element, cssRules, context);
+    const parsedElement = this.buildParsedElement(element, cssRules, parentStyles, context);
+
+    // Percentages need the containing block of every element, so they are resolved top-down afterwards
+    this.lengthResolver.resolve(parsedElement, containingBlock, context, positionedBlock);
+
+    // Whitespace can only be collapsed once the white-space of every element is known
+    this.whitespaceProcessor.process(parsedElement);
+
+    // Boxes need final lengths and know which text is only collapsible whitespace
+    this.layoutEngine.layout(parsedElement, containingBlock.width);
+
+    return parsedElement;
+  }
+
+  private computeAncestorStyles(
+    element: SimpleElement,
+    cssRules: CssRule[],
+    context: StyleContext
+  ): { styles: { [property: string]: string } | null; containingBlock: ContainingBlock; positionedBlock: ContainingBlock } {
+    const ancestors: SimpleElement[] = [];
+    for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+      ancestors.unshift(ancestor);
     }
-    
-    return attributes;
+
+    // The initial containing block is the viewport
+    let containingBlock: ContainingBlock = { width: context.viewport.width, height: context.viewport.height };
+    let positionedBlock = containingBlock;
+    let styles: { [property: string]: string } | null = null;
+    for (const ancestor of ancestors) {
+      styles = this.computeStyles(ancestor, cssRules, styles, context);
+      const ownBlock = this.lengthResolver.getOwnContainingBlock(styles, containingBlock, positionedBlock, context);
+      containingBlock = this.lengthResolver.resolveStyles(styles, ownBlock, context, ancestor.tagName);
+      positionedBlock = this.lengthResolver.getPositionedBlock(styles, containingBlock, positionedBlock);
+    }
+    return { styles, containingBlock, positionedBlock };
   }
 
-  private extractTextContent(html: string): string {
-    // Remove HTML tags and get text content
-    return html.replace(/<[^>]*>/g, '').trim();
+  private computeStyles(
+    element: SimpleElement,
+    cssRules: CssRule[],
+    parentStyles: { [property: string]: string } | null,
+    context: StyleContext
+  ): { [property: string]: string } {
+    // Combine inline styles with CSS styles; an anonymous block has none and only inherits
+    const inlineDeclarations = this.cssParser.parseDeclarations(element.attributes.style || '');
+    const appliedStyles = element.tagName === ANONYMOUS_TEXT ? {} : this.applyCssStyles(element, cssRules, inlineDeclarations);
+    const styles = this.styleComputer.computeStyles(element.tagName, element.attributes, appliedStyles, parentStyles, context);
+
+    // rem units refer to the font size of the root element
+    if (!element.parent) {
+      context.rootFontSize = parseFloat(styles['font-size']) || context.defaultFontSize;
+    }
+    return styles;
   }
 
-  convertToParseElement(element: SimpleElement, cssStyles: { [selector: string]: { [property: string]: string } } = {}): ParsedElement {
-    // Combine inline styles with CSS styles
-    const inlineStyles = this.parseInlineStyles(element.attributes.style || '');
-    const appliedStyles = this.applyCssStyles(element, cssStyles, inlineStyles);
+  private buildParsedElement(
+    element: SimpleElement,
+    cssRules: CssRule[],
+    parentStyles: { [property: string]: string } | null,
+    context: StyleContext
+  ): ParsedElement {
+    const computedStyles = this.computeStyles(element, cssRules, parentStyles, context);
+    
+    const children = element.children.map(child => this.buildParsedElement(child, cssRules, computedStyles, context));
+
+    // Element entries in childNodes appear in the same order as children
+    let childIndex = 0;
+    const childNodes: ParsedNode[] = element.childNodes.map(node =>
+      isTextNodeData(node) ? { type: 'text', text: node.text } : children[childIndex++]
+    );
     
     return {
       tagName: element.tagName,
       textContent: element.textContent,
       attributes: element.attributes,
-      styles: appliedStyles,
-      children: element.children.map(child => this.convertToParseElement(child, cssStyles))
+      styles: computedStyles,
+      children,
+      childNodes
     };
   }
 
+  /**
+   * Runs the cascade for one element: declarations from matching rules are
+   * ordered by importance, origin (stylesheet before inline style),
+   * specificity and source order, and the last one for each property wins.
+   */
   private applyCssStyles(
     element: SimpleElement, 
-    cssStyles: { [selector: string]: { [property: string]: string } }, 
-    inlineStyles: { [property: string]: string }
+    cssRules: CssRule[], 
+    inlineDeclarations: CssDeclaration[]
   ): { [property: string]: string } {
-    const combinedStyles: { [property: string]: string } = {};
-    
-    // Apply universal selector styles first
-    if (cssStyles['*']) {
-      Object.assign(combinedStyles, cssStyles['*']);
-    }
-    
-    // Apply CSS styles based on tag name
-    if (cssStyles[element.tagName]) {
-      Object.assign(combinedStyles, cssStyles[element.tagName]);
-    }
-    
-    // Apply CSS styles based on class (with specificity)
-    if (element.attributes.class) {
-      const classes = element.attributes.class.split(' ').filter(c => c.trim());
-      for (const className of classes) {
-        const classSelector = `.${className.trim()}`;
-        if (cssStyles[classSelector]) {
-          Object.assign(combinedStyles, cssStyles[classSelector]);
-        }
-        
-        // Also check for compound selectors like .class1.class2
-        for (const selector in cssStyles) {
-          if (selector.includes(`.${className}`) && selector !== classSelector) {
-            // Simple check for compound class selectors
-            const selectorClasses = selector.split('.').filter(c => c.trim());
-            if (selectorClasses.every(sc => classes.indexOf(sc) !== -1)) {
-              Object.assign(combinedStyles, cssStyles[selector]);
-            }
-          }
-        }
+    const matched: { declaration: CssDeclaration; inline: boolean; specificity: number; order: number }[] = [];
+
+    cssRules.forEach((rule, order) => {
+      const specificity = this.selectorEngine.matchSpecificity(rule.selector, element);
+      if (specificity === null) return;
+      for (const declaration of rule.declarations) {
+        matched.push({ declaration, inline: false, specificity, order });
       }
+    });
+
+    inlineDeclarations.forEach((declaration, order) => {
+      matched.push({ declaration, inline: true, specificity: 0, order });
+    });
+
+    matched.sort((a, b) =>
+      Number(a.declaration.important) - Number(b.declaration.important) ||
+      Number(a.inline) - Number(b.inline) ||
+      a.specificity - b.specificity ||
+      a.order - b.order
+    );
+
+    const combinedStyles: { [property: string]: string } = {};
+    for (const entry of matched) {
+      this.applyDeclaration(combinedStyles, entry.declaration);
     }
     
-    // Apply CSS styles based on id
-    if (element.attributes.id && cssStyles[`#${element.attributes.id}`]) {
-      Object.assign(combinedStyles, cssStyles[`#${element.attributes.id}`]);
-    }
-    
-    // Apply pseudo-class styles (basic support)
-    const tagWithPseudo = `${element.tagName}:hover`;
-    if (cssStyles[tagWithPseudo]) {
-      // For now, just apply hover styles as regular styles
-      Object.assign(combinedStyles, cssStyles[tagWithPseudo]);
+    return combinedStyles;
+  }
+
+  // Shorthands are stored as their longhands, so later declarations of either kind override them correctly
+  private applyDeclaration(styles: { [property: string]: string }, declaration: CssDeclaration): void {
+    const { property, value } = declaration;
+    if (!this.shorthandExpander.isShorthand(property)) {
+      styles[property] = value;
+      return;
     }
-    
-    // Apply descendant selectors (basic support)
-    for (const selector in cssStyles) {
-      if (selector.includes(' ') && !selector.includes('.') && !selector.includes('#')) {
-        const parts = selector.split(' ').map(p => p.trim());
-        if (parts[parts.length - 1] === element.tagName) {
-          // This is a very basic descendant selector check
-          Object.assign(combinedStyles, cssStyles[selector]);
-        }
+
+    // With var() the value is only known after variable substitution; StyleComputer expands it then
+    if (/var\(/i.test(value)) {
+      for (const longhand of this.shorthandExpander.getLonghands(property)) {
+        delete styles[longhand];
       }
+      styles[property] = value;
+      return;
     }
-    
-    // Inline styles have highest priority, so apply them last
-    Object.assign(combinedStyles, inlineStyles);
-    
-    return combinedStyles;
-  }
 
-  private parseInlineStyles(styleStr: string): { [property: string]: string } {
-    const styles: { [property: string]: string } = {};
-    
-    if (!styleStr) return styles;
-    
-    const declarations = styleStr.split(';');
-    for (const declaration of declarations) {
-      const [property, value] = declaration.split(':').map((s: string) => s.trim());
-      if (property && value) {
-        styles[property] = value;
+    const longhands = this.shorthandExpander.expand(property, value);
+    if (!longhands) return;
+
+    // Pending shorthands whose longhands are all overridden no longer apply
+    for (const pending in styles) {
+      if (this.shorthandExpander.isShorthand(pending) &&
+          this.shorthandExpander.getLonghands(pending).every(longhand => longhands[longhand] !== undefined)) {
+        delete styles[pending];
       }
     }
-    
-    return styles;
+    for (const longhand in longhands) {
+      styles[longhand] = longhands[longhand];
+    }
   }
 }
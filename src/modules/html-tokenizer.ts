@@ -0,0 +1,230 @@
+import { HtmlToken } from '../types';
+import { HtmlEntityDecoder } from './html-entities';
+
+// Raw-text elements whose content still has character references decoded
+const RCDATA_ELEMENTS = ['textarea', 'title'];
+
+/**
+ * Streaming HTML tokenizer. Tokens are produced one at a time by `next()`,
+ * so the tree builder can switch the tokenizer into raw-text mode for
+ * elements such as `<script>` and `<style>` before their content is read.
+ */
+export class HtmlTokenizer {
+  private html: string;
+  private pos = 0;
+  private rawTextTag: string | null = null;
+  private entityDecoder = new HtmlEntityDecoder();
+
+  constructor(html: string) {
+    // Input stream preprocessing: all line breaks become LF
+    this.html = html.replace(/\r\n?/g, '\n');
+  }
+
+  next(): HtmlToken | null {
+    while (this.pos < this.html.length) {
+      if (this.rawTextTag) {
+        const rawText = this.readRawText();
+        if (rawText) return rawText;
+        continue;
+      }
+
+      if (this.html.charAt(this.pos) === '<') {
+        const markup = this.readMarkup();
+        if (markup === undefined) continue; // Ignored markup such as `</>`
+        if (markup) return markup;
+      }
+
+      return this.readText();
+    }
+
+    return null;
+  }
+
+  /**
+   * Treat everything up to the matching end tag as text. Called by the
+   * consumer right after it receives the start tag of a raw-text element.
+   */
+  switchToRawText(tagName: string): void {
+    this.rawTextTag = tagName;
+  }
+
+  private readText(): HtmlToken {
+    const start = this.pos;
+    let end = this.html.indexOf('<', start + 1);
+    if (end === -1) end = this.html.length;
+    this.pos = end;
+    return { type: 'text', text: this.entityDecoder.decode(this.html.slice(start, end)) };
+  }
+
+  private readRawText(): HtmlToken | null {
+    const tagName = this.rawTextTag!;
+    const endTagRegex = new RegExp('</' + tagName + '(?=[\\s/>]|$)', 'ig');
+    endTagRegex.lastIndex = this.pos;
+    const match = endTagRegex.exec(this.html);
+    const end = match ? match.index : this.html.length;
+
+    let text = this.html.slice(this.pos, end);
+    if (RCDATA_ELEMENTS.indexOf(tagName) !== -1) {
+      text = this.entityDecoder.decode(text);
+    }
+    this.pos = end;
+    this.rawTextTag = null;
+
+    return text ? { type: 'text', text } : null;
+  }
+
+  // Returns null when the `<` does not start markup, undefined when the markup is dropped
+  private readMarkup(): HtmlToken | null | undefined {
+    const html = this.html;
+    const next = html.charAt(this.pos + 1);
+
+    if (html.startsWith('<!--', this.pos)) {
+      return this.readComment();
+    }
+
+    if (next === '!') {
+      if (html.substr(this.pos + 2, 7).toLowerCase() === 'doctype') {
+        const text = this.readUntil('>', this.pos + 9);
+        return { type: 'doctype', text: text.trim() };
+      }
+      if (html.startsWith('<![CDATA[', this.pos)) {
+        return { type: 'text', text: this.readUntil(']]>', this.pos + 9) };
+      }
+      return { type: 'comment', text: this.readUntil('>', this.pos + 2) };
+    }
+
+    if (next === '?') {
+      return { type: 'comment', text: this.readUntil('>', this.pos + 1) };
+    }
+
+    if (next === '/') {
+      const first = html.charAt(this.pos + 2);
+      if (/[a-zA-Z]/.test(first)) {
+        return this.readEndTag();
+      }
+      if (first === '>') {
+        this.pos += 3;
+        return undefined;
+      }
+      return { type: 'comment', text: this.readUntil('>', this.pos + 2) };
+    }
+
+    if (/[a-zA-Z]/.test(next)) {
+      return this.readStartTag();
+    }
+
+    return null;
+  }
+
+  private readComment(): HtmlToken {
+    const start = this.pos + 4;
+    // `<!-->` and `<!--->` are complete (empty) comments
+    const abrupt = /^-?>/.exec(this.html.slice(start, start + 2));
+    if (abrupt) {
+      this.pos = start + abrupt[0].length;
+      return { type: 'comment', text: '' };
+    }
+    return { type: 'comment', text: this.readUntil('-->', start) };
+  }
+
+  private readStartTag(): HtmlToken {
+    this.pos++; // '<'
+    const tagName = this.readTagName();
+    const attributes: { [key: string]: string } = {};
+    let selfClosing = false;
+
+    while (this.pos < this.html.length) {
+      this.skipWhitespace();
+      const ch = this.html.charAt(this.pos);
+
+      if (ch === '>') {
+        this.pos++;
+        break;
+      }
+      if (ch === '/') {
+        this.pos++;
+        if (this.html.charAt(this.pos) === '>') {
+          selfClosing = true;
+          this.pos++;
+          break;
+        }
+        continue;
+      }
+      if (!ch) break;
+
+      const name = this.readAttributeName();
+      this.skipWhitespace();
+
+      let value = '';
+      if (this.html.charAt(this.pos) === '=') {
+        this.pos++;
+        this.skipWhitespace();
+        value = this.readAttributeValue();
+      }
+
+      // The first occurrence of a duplicated attribute wins
+      if (name && !Object.prototype.hasOwnProperty.call(attributes, name)) {
+        attributes[name] = value;
+      }
+    }
+
+    return { type: 'startTag', tagName, attributes, selfClosing };
+  }
+
+  private readEndTag(): HtmlToken {
+    this.pos += 2; // '</'
+    const tagName = this.readTagName();
+    // Attributes on end tags are ignored
+    this.readUntil('>', this.pos);
+    return { type: 'endTag', tagName };
+  }
+
+  private readTagName(): string {
+    const start = this.pos;
+    while (this.pos < this.html.length && !/[\s/>]/.test(this.html.charAt(this.pos))) {
+      this.pos++;
+    }
+    return this.html.slice(start, this.pos).toLowerCase();
+  }
+
+  private readAttributeName(): string {
+    const start = this.pos;
+    // A leading '=' is part of the name rather than a separator
+    if (this.html.charAt(this.pos) === '=') this.pos++;
+    while (this.pos < this.html.length && !/[\s/>=]/.test(this.html.charAt(this.pos))) {
+      this.pos++;
+    }
+    return this.html.slice(start, this.pos).toLowerCase();
+  }
+
+  private readAttributeValue(): string {
+    const quote = this.html.charAt(this.pos);
+    if (quote === '"' || quote === "'") {
+      this.pos++;
+      return this.entityDecoder.decode(this.readUntil(quote, this.pos), true);
+    }
+
+    const start = this.pos;
+    while (this.pos < this.html.length && !/[\s>]/.test(this.html.charAt(this.pos))) {
+      this.pos++;
+    }
+    return this.entityDecoder.decode(this.html.slice(start, this.pos), true);
+  }
+
+  // Reads from `start` up to `terminator` and moves past it (or to the end of input)
+  private readUntil(terminator: string, start: number): string {
+    const end = this.html.indexOf(terminator, start);
+    if (end === -1) {
+      this.pos = this.html.length;
+      return this.html.slice(start);
+    }
+    this.pos = end + terminator.length;
+    return this.html.slice(start, end);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.html.length && /\s/.test(this.html.charAt(this.pos))) {
+      this.pos++;
+    }
+  }
+}
@@ -0,0 +1,498 @@
+import { SimpleElement, isTextNodeData } from '../types';
+import { HtmlTokenizer } from './html-tokenizer';
+
+type Namespace = 'html' | 'svg' | 'math';
+
+const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'keygen',
+  'link', 'meta', 'param', 'source', 'track', 'wbr'
+];
+
+// Elements whose content is not markup
+const RAW_TEXT_ELEMENTS = [
+  'script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript'
+];
+
+// Elements that never become part of the rendered tree
+const DISCARDED_ELEMENTS = ['script', 'style', 'noscript', 'template'];
+
+// Start tags that implicitly close an open <p>
+const CLOSES_PARAGRAPH = [
+  'address', 'article', 'aside', 'blockquote', 'center', 'details', 'dialog', 'dir', 'div',
+  'dl', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5',
+  'h6', 'header', 'hgroup', 'hr', 'li', 'dd', 'dt', 'listing', 'main', 'menu', 'nav', 'ol',
+  'p', 'pre', 'section', 'summary', 'table', 'ul', 'xmp'
+];
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+// A newline right after these start tags is not part of the content
+const SKIPS_LEADING_NEWLINE = ['pre', 'listing', 'textarea'];
+
+// Elements allowed inside <head>; anything else implicitly closes it
+const HEAD_CONTENT = ['base', 'link', 'meta', 'title', 'style', 'script', 'noscript', 'template'];
+
+// The "special" category: a stray end tag never closes past one of these
+const SPECIAL_ELEMENTS = [
+  'address', 'applet', 'area', 'article', 'aside', 'base', 'blockquote', 'body', 'br',
+  'button', 'caption', 'center', 'col', 'colgroup', 'dd', 'details', 'dir', 'div', 'dl',
+  'dt', 'embed', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'head', 'header', 'hgroup', 'hr', 'html', 'iframe', 'img', 'input',
+  'li', 'link', 'listing', 'main', 'marquee', 'menu', 'meta', 'nav', 'object', 'ol', 'p',
+  'pre', 'section', 'select', 'summary', 'table', 'tbody', 'td', 'template', 'textarea',
+  'tfoot', 'th', 'thead', 'tr', 'ul', 'xmp'
+];
+
+const SCOPE_BOUNDARIES = [
+  'applet', 'caption', 'html', 'table', 'td', 'th', 'marquee', 'object', 'template',
+  'foreignobject'
+];
+
+const TABLE_SECTIONS = ['tbody', 'thead', 'tfoot'];
+
+// End tags that close past open cells: a cell is not a boundary for them
+const TABLE_STRUCTURE = ['table', 'tr'].concat(TABLE_SECTIONS);
+
+// Formatting elements closed by a misnested end tag are reopened for the content that follows
+const FORMATTING_ELEMENTS = [
+  'a', 'b', 'big', 'code', 'em', 'font', 'i', 'nobr', 's', 'small', 'strike', 'strong', 'tt', 'u'
+];
+
+// HTML start tags that break out of inline SVG/MathML content
+const FOREIGN_BREAKOUT = [
+  'b', 'big', 'blockquote', 'body', 'br', 'center', 'code', 'dd', 'div', 'dl', 'dt', 'em',
+  'embed', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'hr', 'i', 'img', 'li', 'listing',
+  'menu', 'meta', 'nobr', 'ol', 'p', 'pre', 'ruby', 's', 'small', 'span', 'strong',
+  'strike', 'sub', 'sup', 'table', 'tt', 'u', 'ul', 'var'
+];
+
+// SVG elements whose children are parsed as HTML again
+const HTML_INTEGRATION_POINTS = ['foreignobject', 'desc', 'title'];
+
+// The text of a <style> element, which is kept out of the tree
+export interface StyleSheetSource {
+  text: string;
+  media: string;
+}
+
+/**
+ * Builds a SimpleElement tree from the token stream following the shape of
+ * the HTML tree construction algorithm: implied html, head and body
+ * elements, void elements, implied end tags, raw-text elements and recovery
+ * from misnested or unclosed markup. The root is always a single <html>.
+ */
+export class HtmlTreeBuilder {
+  private tokenizer!: HtmlTokenizer;
+  private roots: SimpleElement[] = [];
+  private head: SimpleElement | null = null;
+  private body: SimpleElement | null = null;
+  private stack: SimpleElement[] = [];
+  private namespaces: Namespace[] = [];
+  private skipLeadingNewline = false;
+  private reopenedFormatting: SimpleElement[] = []; // Closed by another element's end tag, waiting for content
+  private styleSheets: StyleSheetSource[] = [];
+
+  build(html: string): SimpleElement[] {
+    this.tokenizer = new HtmlTokenizer(html);
+    this.roots = [];
+    this.head = null;
+    this.body = null;
+    this.stack = [];
+    this.namespaces = [];
+    this.skipLeadingNewline = false;
+    this.reopenedFormatting = [];
+    this.styleSheets = [];
+
+    let token;
+    while ((token = this.tokenizer.next()) !== null) {
+      const skipNewline = this.skipLeadingNewline;
+      this.skipLeadingNewline = false;
+
+      switch (token.type) {
+        case 'startTag':
+          this.handleStartTag(token.tagName, token.attributes, token.selfClosing);
+          break;
+        case 'endTag':
+          this.handleEndTag(token.tagName);
+          break;
+        case 'text':
+          this.insertText(skipNewline ? token.text.replace(/^\n/, '') : token.text);
+          break;
+        default:
+          // Comments and doctypes carry no visual content
+          break;
+      }
+    }
+
+    // Everything still open at the end of input is closed implicitly; an empty document still has a body
+    if (!this.body) this.openBody({});
+    while (this.stack.length > 0) {
+      this.pop();
+    }
+
+    return this.roots;
+  }
+
+  // The style sheets of the last document built, in document order; those inside <template> do not apply
+  getStyleSheets(): StyleSheetSource[] {
+    return this.styleSheets;
+  }
+
+  private handleStartTag(tagName: string, attributes: { [key: string]: string }, selfClosing: boolean): void {
+    if (this.isInForeignContent()) {
+      if (FOREIGN_BREAKOUT.indexOf(tagName) === -1) {
+        this.insertElement(tagName, attributes);
+        if (selfClosing) this.pop();
+        return;
+      }
+      while (this.stack.length > 0 && this.isInForeignContent()) {
+        this.pop();
+      }
+    }
+
+    // A repeated <html> or <body> only adds its attributes
+    if (tagName === 'html') {
+      this.mergeAttributes(this.ensureHtml(attributes), attributes);
+      return;
+    }
+    if (this.body) {
+      if (tagName === 'body') this.mergeAttributes(this.body, attributes);
+      if (tagName === 'body' || tagName === 'head') return;
+    } else if (tagName === 'head') {
+      if (!this.head) this.head = this.insertElement('head', attributes, this.ensureHtml({}));
+      return;
+    } else if (HEAD_CONTENT.indexOf(tagName) !== -1) {
+      this.enterHead();
+    } else {
+      this.openBody(tagName === 'body' ? attributes : {});
+      if (tagName === 'body') return;
+    }
+
+    if (DISCARDED_ELEMENTS.indexOf(tagName) !== -1) {
+      this.discardElement(tagName, attributes);
+      return;
+    }
+
+    this.closeImpliedElements(tagName);
+    if (SPECIAL_ELEMENTS.indexOf(tagName) === -1) this.reopenFormatting();
+
+    if (tagName === 'tr' && this.isTableOrSection(this.currentTag(), true)) {
+      this.insertElement('tbody', {});
+    } else if ((tagName === 'td' || tagName === 'th') && this.isTableOrSection(this.currentTag(), false)) {
+      if (this.currentTag() === 'table') this.insertElement('tbody', {});
+      this.insertElement('tr', {});
+    }
+
+    this.insertElement(tagName, attributes);
+
+    if (VOID_ELEMENTS.indexOf(tagName) !== -1) {
+      this.pop();
+    } else if (RAW_TEXT_ELEMENTS.indexOf(tagName) !== -1) {
+      this.tokenizer.switchToRawText(tagName);
+    }
+
+    this.skipLeadingNewline = SKIPS_LEADING_NEWLINE.indexOf(tagName) !== -1;
+  }
+
+  private handleEndTag(tagName: string): void {
+    // Content after </body> or </html> still belongs to the body
+    if (tagName === 'body' || tagName === 'html') return;
+
+    // Before the body only </head> and the end tags of open head content count
+    if (!this.body && tagName !== 'br') {
+      if (this.findOpen(tagName)) this.popUntil(tagName);
+      return;
+    }
+
+    if (tagName === 'br') {
+      this.handleStartTag('br', {}, false);
+      return;
+    }
+
+    if (tagName === 'p' && !this.hasInScope('p', ['button'])) {
+      // A stray </p> produces an empty paragraph, as browsers do
+      this.insertElement('p', {});
+    }
+
+    if (TABLE_STRUCTURE.indexOf(tagName) !== -1) {
+      // Closes the cells and rows still open inside, as </table> in a cell does
+      if (this.hasInScope(tagName, [], true)) this.popUntil(tagName);
+      return;
+    }
+
+    if (SPECIAL_ELEMENTS.indexOf(tagName) !== -1) {
+      if (this.hasInScope(tagName)) this.popUntil(tagName);
+      return;
+    }
+
+    // An end tag for formatting that was closed early but not yet reopened cancels it
+    for (let i = this.reopenedFormatting.length - 1; i >= 0; i--) {
+      if (this.reopenedFormatting[i].tagName === tagName) {
+        this.reopenedFormatting.splice(i, 1);
+        if (!this.findOpen(tagName)) return;
+        break;
+      }
+    }
+
+    // Any other end tag closes the nearest matching element unless a special element is in the way
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const openTag = this.stack[i].tagName;
+      if (openTag === tagName) {
+        // <b><i>x</b>y</i>: the <i> closed along with the <b> still applies to "y"
+        if (FORMATTING_ELEMENTS.indexOf(tagName) !== -1) {
+          const closed = this.stack.slice(i + 1).filter(element => FORMATTING_ELEMENTS.indexOf(element.tagName) !== -1);
+          this.reopenedFormatting = this.reopenedFormatting.concat(closed);
+        }
+        this.popUntil(tagName);
+        return;
+      }
+      if (this.namespaces[i] === 'html' && SPECIAL_ELEMENTS.indexOf(openTag) !== -1) {
+        return;
+      }
+    }
+  }
+
+  private closeImpliedElements(tagName: string): void {
+    if (CLOSES_PARAGRAPH.indexOf(tagName) !== -1 && this.hasInScope('p', ['button'])) {
+      this.popUntil('p');
+    }
+
+    if (HEADINGS.indexOf(tagName) !== -1 && HEADINGS.indexOf(this.currentTag()) !== -1) {
+      this.pop();
+    }
+
+    switch (tagName) {
+      case 'li':
+        this.closeListItem(['li'], ['ul', 'ol']);
+        break;
+      case 'dd':
+      case 'dt':
+        this.closeListItem(['dd', 'dt'], ['dl']);
+        break;
+      case 'a':
+      case 'button':
+      case 'form':
+        if (this.hasInScope(tagName)) this.popUntil(tagName);
+        break;
+      case 'option':
+        if (this.currentTag() === 'option') this.pop();
+        break;
+      case 'optgroup':
+        if (this.currentTag() === 'option') this.pop();
+        if (this.currentTag() === 'optgroup') this.pop();
+        break;
+      case 'tr':
+        this.closeTableCells();
+        if (this.currentTag() === 'tr') this.pop();
+        break;
+      case 'td':
+      case 'th':
+        this.closeTableCells();
+        break;
+      case 'tbody':
+      case 'thead':
+      case 'tfoot':
+        this.closeTableCells();
+        if (this.currentTag() === 'tr') this.pop();
+        if (TABLE_SECTIONS.indexOf(this.currentTag()) !== -1) this.pop();
+        break;
+    }
+  }
+
+  // Opens copies of the formatting elements a misnested end tag closed, before the content that follows
+  private reopenFormatting(): void {
+    const elements = this.reopenedFormatting;
+    this.reopenedFormatting = [];
+    for (const element of elements) {
+      this.insertElement(element.tagName, Object.assign({}, element.attributes));
+    }
+  }
+
+  private closeListItem(itemTags: string[], listTags: string[]): void {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const openTag = this.stack[i].tagName;
+      if (itemTags.indexOf(openTag) !== -1) {
+        this.popUntil(openTag);
+        return;
+      }
+      if (listTags.indexOf(openTag) !== -1 || SCOPE_BOUNDARIES.indexOf(openTag) !== -1) {
+        return;
+      }
+    }
+  }
+
+  private closeTableCells(): void {
+    if (this.hasInScope('td', [], true)) this.popUntil('td');
+    if (this.hasInScope('th', [], true)) this.popUntil('th');
+  }
+
+  // Skips the content of elements that are never rendered, keeping the text of style sheets
+  private discardElement(tagName: string, attributes: { [key: string]: string }): void {
+    if (RAW_TEXT_ELEMENTS.indexOf(tagName) !== -1) {
+      this.tokenizer.switchToRawText(tagName);
+      let token = this.tokenizer.next();
+      if (token && token.type === 'text') {
+        if (tagName === 'style') this.styleSheets.push({ text: token.text, media: attributes.media || '' });
+        token = this.tokenizer.next();
+      }
+      return;
+    }
+
+    // Template content is parsed normally but kept out of the tree
+    let depth = 1;
+    let token;
+    while (depth > 0 && (token = this.tokenizer.next()) !== null) {
+      if (token.type === 'startTag' && token.tagName === tagName) depth++;
+      if (token.type === 'endTag' && token.tagName === tagName) depth--;
+      if (token.type === 'startTag' && RAW_TEXT_ELEMENTS.indexOf(token.tagName) !== -1) {
+        this.tokenizer.switchToRawText(token.tagName);
+      }
+    }
+  }
+
+  // The html element, created on the first token that needs it
+  private ensureHtml(attributes: { [key: string]: string }): SimpleElement {
+    if (this.roots.length === 0) this.insertElement('html', attributes);
+    return this.roots[0];
+  }
+
+  // Head content before the body goes into <head>, which is reopened if it was already closed
+  private enterHead(): void {
+    if (!this.head) {
+      this.head = this.insertElement('head', {}, this.ensureHtml({}));
+    } else if (this.currentTag() !== 'head') {
+      this.stack.push(this.head);
+      this.namespaces.push('html');
+    }
+  }
+
+  // Anything that is not head content implies the end of <head> and the start of <body>
+  private openBody(attributes: { [key: string]: string }): void {
+    const html = this.ensureHtml({});
+    if (!this.head) this.head = this.insertElement('head', {}, html);
+    while (this.stack.length > 1) {
+      this.pop();
+    }
+    this.body = this.insertElement('body', attributes, html);
+  }
+
+  private insertElement(tagName: string, attributes: { [key: string]: string }, parentElement?: SimpleElement): SimpleElement {
+    const parent = parentElement || (this.stack.length > 0 ? this.stack[this.stack.length - 1] : undefined);
+    const namespace = this.namespaceFor(tagName);
+    const element: SimpleElement = {
+      tagName,
+      attributes,
+      textContent: '',
+      children: [],
+      childNodes: [],
+      parent
+    };
+
+    if (parent) {
+      parent.children.push(element);
+      parent.childNodes.push(element);
+    } else {
+      this.roots.push(element);
+    }
+
+    this.stack.push(element);
+    this.namespaces.push(namespace);
+    return element;
+  }
+
+  private insertText(text: string): void {
+    // Whitespace before the body is dropped; other text implies the body, except inside <title>
+    if (!this.body && this.currentTag() !== 'title') {
+      text = text.replace(/^[ \t\n\f\r]+/, '');
+      if (!text) return;
+      this.openBody({});
+    }
+    if (!text) return;
+    this.reopenFormatting();
+
+    // Text belongs to every open element, so textContent stays the concatenated descendant text
+    for (const element of this.stack) {
+      element.textContent += text;
+    }
+
+    // Adjacent text tokens form a single text node
+    const current = this.stack[this.stack.length - 1];
+    const last = current.childNodes[current.childNodes.length - 1];
+    if (last && isTextNodeData(last)) {
+      last.text += text;
+    } else {
+      current.childNodes.push({ type: 'text', text });
+    }
+  }
+
+  private namespaceFor(tagName: string): Namespace {
+    if (tagName === 'svg') return 'svg';
+    if (tagName === 'math') return 'math';
+
+    const depth = this.stack.length - 1;
+    if (depth < 0) return 'html';
+
+    const parentNamespace = this.namespaces[depth];
+    if (parentNamespace === 'svg' && HTML_INTEGRATION_POINTS.indexOf(this.stack[depth].tagName) !== -1) {
+      return 'html';
+    }
+    return parentNamespace;
+  }
+
+  private isInForeignContent(): boolean {
+    const depth = this.stack.length - 1;
+    if (depth < 0 || this.namespaces[depth] === 'html') return false;
+    // Children of integration points are parsed as HTML
+    return !(this.namespaces[depth] === 'svg' && HTML_INTEGRATION_POINTS.indexOf(this.stack[depth].tagName) !== -1);
+  }
+
+  private hasInScope(tagName: string, extraBoundaries: string[] = [], tableScope = false): boolean {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const openTag = this.stack[i].tagName;
+      if (openTag === tagName) return true;
+      if (tableScope) {
+        if (openTag === 'table' || openTag === 'html' || openTag === 'template') return false;
+      } else if (SCOPE_BOUNDARIES.indexOf(openTag) !== -1 || extraBoundaries.indexOf(openTag) !== -1) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private isTableOrSection(tagName: string, tableOnly: boolean): boolean {
+    if (tagName === 'table') return true;
+    return !tableOnly && TABLE_SECTIONS.indexOf(tagName) !== -1;
+  }
+
+  private findOpen(tagName: string): SimpleElement | undefined {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      if (this.stack[i].tagName === tagName) return this.stack[i];
+    }
+    return undefined;
+  }
+
+  private mergeAttributes(element: SimpleElement, attributes: { [key: string]: string }): void {
+    for (const name in attributes) {
+      if (!Object.prototype.hasOwnProperty.call(element.attributes, name)) {
+        element.attributes[name] = attributes[name];
+      }
+    }
+  }
+
+  private currentTag(): string {
+    return this.stack.length > 0 ? this.stack[this.stack.length - 1].tagName : '';
+  }
+
+  private popUntil(tagName: string): void {
+    while (this.stack.length > 0) {
+      if (this.pop().tagName === tagName) return;
+    }
+  }
+
+  private pop(): SimpleElement {
+    const element = this.stack.pop()!;
+    this.namespaces.pop();
+    element.textContent = element.textContent.trim();
+    return element;
+  }
+}
@@ -0,0 +1,98 @@
+// data:[<media type>][;base64],<data>
+const DATA_URI = /^data:([^,]*?)(;base64)?,([\s\S]*)$/i;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the bytes behind image URLs. Base64 data URIs are decoded; any other
+ * URL is looked up by file name among the files the user supplied together
+ * with the HTML document, since the plugin cannot fetch relative paths.
+ * Each URL becomes one Figma image, reused wherever it appears.
+ */
+export class ImageStore {
+  private files: { [name: string]: Uint8Array } = {};
+  private images: { [url: string]: Image | null } = {};
+  private sizes: { [hash: string]: ImageSize } = {};
+
+  // Replaces the supplied files; names match case-insensitively
+  setFiles(files: { [name: string]: Uint8Array }): void {
+    this.files = {};
+    for (const name in files) {
+      this.files[name.toLowerCase()] = files[name];
+    }
+    this.images = {};
+  }
+
+  // null when the bytes cannot be found or are not a PNG, JPEG or GIF
+  getImage(url: string): Image | null {
+    if (this.images[url] !== undefined) return this.images[url];
+
+    const bytes = this.getBytes(url);
+    let image: Image | null = null;
+    if (bytes) {
+      try {
+        image = figma.createImage(bytes);
+      } catch (error) {
+        console.warn('无法创建图片:', url, error);
+      }
+    }
+
+    this.images[url] = image;
+    return image;
+  }
+
+  async getSize(image: Image): Promise<ImageSize> {
+    if (!this.sizes[image.hash]) {
+      this.sizes[image.hash] = await image.getSizeAsync();
+    }
+    return this.sizes[image.hash];
+  }
+
+  // The markup of an SVG image, which is imported as vectors rather than as an image fill
+  getSvgMarkup(url: string): string | null {
+    const dataUri = DATA_URI.exec(url);
+    try {
+      if (dataUri) {
+        if (!/^image\/svg\+xml\b/i.test(dataUri[1])) return null;
+        return dataUri[2] ? this.decodeUtf8(figma.base64Decode(dataUri[3].replace(/\s+/g, ''))) : decodeURIComponent(dataUri[3]);
+      }
+      const bytes = this.files[this.getFileName(url)];
+      return bytes && /\.svg$/.test(this.getFileName(url)) ? this.decodeUtf8(bytes) : null;
+    } catch (error) {
+      console.warn('无法读取SVG:', url, error);
+      return null;
+    }
+  }
+
+  private getBytes(url: string): Uint8Array | null {
+    const dataUri = DATA_URI.exec(url);
+    if (dataUri) {
+      // Percent-encoded data is text, e.g. SVG, which Figma cannot use as an image fill
+      return dataUri[2] ? figma.base64Decode(dataUri[3].replace(/\s+/g, '')) : null;
+    }
+    return this.files[this.getFileName(url)] || null;
+  }
+
+  // `images/Hero%20Banner.jpg?v=2` is looked up as `hero banner.jpg`
+  private getFileName(url: string): string {
+    const path = url.split(/[?#]/)[0];
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    try {
+      return decodeURIComponent(name).toLowerCase();
+    } catch (error) {
+      return name.toLowerCase();
+    }
+  }
+
+  // decodeURIComponent decodes UTF-8 once every byte is percent-encoded
+  private decodeUtf8(bytes: Uint8Array): string {
+    let encoded = '';
+    for (let i = 0; i < bytes.length; i++) {
+      encoded += (bytes[i] < 16 ? '%0' : '%') + bytes[i].toString(16);
+    }
+    return decodeURIComponent(encoded).replace(/^\uFEFF/, '');
+  }
+}
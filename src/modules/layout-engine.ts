@@ -0,0 +1,281 @@
+import { ParsedElement, ParsedNode, LayoutBox, BoxEdges, isTextNodeData } from '../types';
+import { INLINE_REPLACED_ELEMENTS, fillsContainingBlock, isInlineDisplay } from './html-elements';
+
+const SIDES: (keyof BoxEdges)[] = ['top', 'right', 'bottom', 'left'];
+
+const BORDER_WIDTH_KEYWORDS: { [keyword: string]: number } = { thin: 1, medium: 3, thick: 5 };
+
+// Containers whose children are placed by auto layout rather than stacked, so their margins never collapse
+const LAYOUT_DISPLAYS = ['flex', 'inline-flex', 'grid', 'inline-grid'];
+
+// Boxes that start a new block formatting context: their margins do not collapse with their children's
+const FORMATTING_ROOT_DISPLAYS = LAYOUT_DISPLAYS.concat(['inline-block', 'flow-root', 'table', 'inline-table', 'table-cell']);
+
+// Adjoining margins collapse to the largest positive margin plus the most negative one
+interface CollapsedMargin {
+  positive: number;
+  negative: number;
+}
+
+// The margins an element exposes to its parent's flow once its own children have been collapsed in
+interface FlowMargins {
+  top: CollapsedMargin;
+  bottom: CollapsedMargin;
+  collapsesThrough: boolean; // An empty box: its top and bottom margins adjoin
+}
+
+const NO_MARGIN: CollapsedMargin = { positive: 0, negative: 0 };
+
+/**
+ * Works out the CSS box of every element before any node is created,
+ * following block formatting: an auto width fills the containing block,
+ * `auto` margins share the space left over, `box-sizing` and the min/max
+ * limits apply, and vertical margins collapse between siblings, through
+ * empty boxes and with a parent that has no border or padding in between.
+ * Heights that depend on text are left to node creation, which can measure
+ * it; the vertical space around every box in normal flow is decided here.
+ */
+export class LayoutEngine {
+  layout(element: ParsedElement, containingWidth: number): void {
+    this.layoutElement(element, containingWidth, false);
+  }
+
+  private layoutElement(element: ParsedElement, containingWidth: number, isLayoutItem: boolean): FlowMargins {
+    const box = this.computeBox(element, containingWidth, isLayoutItem);
+    element.box = box;
+
+    // A width that depends on content is bounded by the containing block
+    const horizontal = box.padding.left + box.padding.right + box.border.left + box.border.right;
+    const contentWidth = box.width !== null
+      ? box.width - horizontal
+      : Math.min(containingWidth - box.margin.left - box.margin.right, box.maxWidth) - horizontal;
+    const isLayoutContainer = LAYOUT_DISPLAYS.indexOf(element.styles.display) !== -1;
+
+    const results: { [index: number]: FlowMargins } = {};
+    element.children.forEach((child, index) => {
+      results[index] = this.layoutElement(child, Math.max(0, contentWidth), isLayoutContainer);
+    });
+
+    const own: FlowMargins = {
+      top: this.toCollapsed(box.margin.top),
+      bottom: this.toCollapsed(box.margin.bottom),
+      collapsesThrough: false
+    };
+    if (isLayoutContainer) return own;
+    return this.layoutFlow(element, box, results, own);
+  }
+
+  private computeBox(element: ParsedElement, containingWidth: number, isLayoutItem: boolean): LayoutBox {
+    const styles = element.styles;
+    const padding = this.getEdges(side => this.parsePx(styles[`padding-${side}`]) || 0);
+    const border = this.getEdges(side => this.getBorderWidth(styles, side));
+    const margin = this.getEdges(side => this.parsePx(styles[`margin-${side}`]) || 0);
+
+    // Sizes and limits are converted to the border box
+    const horizontal = padding.left + padding.right + border.left + border.right;
+    const vertical = padding.top + padding.bottom + border.top + border.bottom;
+    const isBorderBox = styles['box-sizing'] === 'border-box';
+    const toBorderBox = (value: number | null, extra: number) =>
+      (value === null ? null : isBorderBox ? Math.max(value, extra) : Math.max(value, 0) + extra);
+
+    const minWidth = Math.max(toBorderBox(this.parsePx(styles['min-width']), horizontal) || 0, horizontal);
+    const maxWidth = toBorderBox(this.parsePx(styles['max-width']), horizontal);
+    const minHeight = Math.max(toBorderBox(this.parsePx(styles['min-height']), vertical) || 0, vertical);
+    const maxHeight = toBorderBox(this.parsePx(styles['max-height']), vertical);
+    const clamp = (value: number, min: number, max: number | null) => Math.max(min, max !== null ? Math.min(value, max) : value);
+
+    // Flex and grid items are sized by their container; auto layout stands in for that
+    const fills = !isLayoutItem && fillsContainingBlock(styles, element.tagName);
+    let width = toBorderBox(this.parsePx(styles.width), horizontal);
+    if (width === null && fills) {
+      width = containingWidth - margin.left - margin.right;
+    }
+    if (width !== null) {
+      width = clamp(width, minWidth, maxWidth);
+    }
+
+    // In a block box, auto margins take what the width leaves of the line; otherwise the right margin does
+    if (fills && width !== null) {
+      const autoLeft = styles['margin-left'] === 'auto';
+      const autoRight = styles['margin-right'] === 'auto';
+      const free = containingWidth - width - margin.left - margin.right;
+      if (autoLeft && autoRight) {
+        margin.left = margin.right = Math.max(0, free / 2);
+      } else if (autoLeft) {
+        margin.left = Math.max(0, free);
+      } else {
+        margin.right += free;
+      }
+    }
+
+    const height = toBorderBox(this.parsePx(styles.height), vertical);
+    return {
+      width,
+      height: height !== null ? clamp(height, minHeight, maxHeight) : null,
+      minWidth,
+      maxWidth: maxWidth !== null ? maxWidth : Infinity,
+      minHeight,
+      maxHeight: maxHeight !== null ? maxHeight : Infinity,
+      margin,
+      padding,
+      border,
+      spaceBefore: 0,
+      spaceAfter: 0
+    };
+  }
+
+  /**
+   * Works out the space before and after each child in normal flow. Runs
+   * of inline content become one line of text between the block children,
+   * as in NodeFactory, and margins do not collapse across it. Returns the
+   * margins the element exposes to its own parent.
+   */
+  private layoutFlow(
+    element: ParsedElement,
+    box: LayoutBox,
+    results: { [index: number]: FlowMargins },
+    own: FlowMargins
+  ): FlowMargins {
+    const isRoot = this.isFormattingRoot(element);
+    const collapsesTop = !isRoot && box.padding.top === 0 && box.border.top === 0;
+    const collapsesBottom = !isRoot && box.padding.bottom === 0 && box.border.bottom === 0 && box.height === null;
+    const top = own.top;
+    let bottom = own.bottom;
+
+    let pending = NO_MARGIN; // Margins that adjoin at the current position
+    let consumed = 0; // Space already given to empty boxes since the last box with content
+    let last: LayoutBox | null = null;
+    let atTop = true;
+    let hasLine = false;
+    let hasContent = false;
+
+    const endLine = () => {
+      if (!hasLine) return;
+      if (last) last.spaceAfter = this.resolve(pending) - consumed;
+      pending = NO_MARGIN;
+      consumed = 0;
+      last = null;
+      atTop = false;
+      hasLine = false;
+      hasContent = true;
+    };
+
+    const contentNodes: ParsedNode[] = element.childNodes || element.children;
+    for (const node of contentNodes) {
+      if (isTextNodeData(node) || this.isInlineContent(node)) {
+        if (this.getText(node).trim()) hasLine = true;
+        continue;
+      }
+      endLine();
+
+      const index = element.children.indexOf(node);
+      const child = node.box;
+      if (!child || index === -1 || !this.isInFlow(node)) continue;
+      const margins = results[index];
+
+      if (margins.collapsesThrough) {
+        if (atTop && collapsesTop) {
+          top.positive = Math.max(top.positive, margins.top.positive, margins.bottom.positive);
+          top.negative = Math.min(top.negative, margins.top.negative, margins.bottom.negative);
+        } else {
+          // An empty box sits where its top margin puts it; the margins go on to collapse with what follows
+          child.spaceBefore = this.resolve(this.combine(pending, margins.top)) - consumed;
+          consumed += child.spaceBefore;
+          pending = this.combine(pending, this.combine(margins.top, margins.bottom));
+        }
+        last = child;
+        continue;
+      }
+
+      if (atTop && collapsesTop) {
+        top.positive = Math.max(top.positive, margins.top.positive);
+        top.negative = Math.min(top.negative, margins.top.negative);
+        child.spaceBefore = 0;
+      } else {
+        child.spaceBefore = this.resolve(this.combine(pending, margins.top)) - consumed;
+      }
+      pending = margins.bottom;
+      consumed = 0;
+      last = child;
+      atTop = false;
+      hasContent = true;
+    }
+    endLine();
+
+    if (last) {
+      const lastBox: LayoutBox = last;
+      if (collapsesBottom) {
+        bottom = this.combine(bottom, pending);
+        lastBox.spaceAfter = -consumed;
+      } else {
+        lastBox.spaceAfter = this.resolve(pending) - consumed;
+      }
+    }
+
+    // A box without content, height or anything between its margins lets them collapse together
+    const isReplaced = INLINE_REPLACED_ELEMENTS.indexOf(element.tagName) !== -1;
+    const collapsesThrough = !hasContent && !isReplaced && collapsesTop && collapsesBottom && box.minHeight === 0;
+    if (collapsesThrough) {
+      const through = this.combine(top, bottom);
+      return { top: through, bottom: through, collapsesThrough };
+    }
+    return { top, bottom, collapsesThrough };
+  }
+
+  // Inline elements with only inline content flow in a line of text, as NodeFactory groups them
+  private isInlineContent(element: ParsedElement): boolean {
+    return isInlineDisplay(element) && (element.childNodes || []).every(node =>
+      isTextNodeData(node) || this.isInlineContent(node));
+  }
+
+  private isInFlow(element: ParsedElement): boolean {
+    const position = element.styles.position;
+    return element.styles.display !== 'none' && position !== 'absolute' && position !== 'fixed';
+  }
+
+  private isFormattingRoot(element: ParsedElement): boolean {
+    const styles = element.styles;
+    return FORMATTING_ROOT_DISPLAYS.indexOf(styles.display) !== -1 ||
+      (styles.float !== undefined && styles.float !== 'none') ||
+      (styles['overflow-x'] !== undefined && styles['overflow-x'] !== 'visible') ||
+      (styles['overflow-y'] !== undefined && styles['overflow-y'] !== 'visible') ||
+      styles.position === 'absolute' || styles.position === 'fixed';
+  }
+
+  private getText(node: ParsedNode): string {
+    return isTextNodeData(node) ? node.text : node.textContent || '';
+  }
+
+  private toCollapsed(margin: number): CollapsedMargin {
+    return { positive: Math.max(margin, 0), negative: Math.min(margin, 0) };
+  }
+
+  private combine(a: CollapsedMargin, b: CollapsedMargin): CollapsedMargin {
+    return { positive: Math.max(a.positive, b.positive), negative: Math.min(a.negative, b.negative) };
+  }
+
+  private resolve(margin: CollapsedMargin): number {
+    return margin.positive + margin.negative;
+  }
+
+  private getEdges(value: (side: keyof BoxEdges) => number): BoxEdges {
+    const edges: BoxEdges = { top: 0, right: 0, bottom: 0, left: 0 };
+    for (const side of SIDES) {
+      edges[side] = value(side);
+    }
+    return edges;
+  }
+
+  private getBorderWidth(styles: { [property: string]: string }, side: string): number {
+    const style = styles[`border-${side}-style`];
+    if (!style || style === 'none' || style === 'hidden') return 0;
+    const width = styles[`border-${side}-width`] || 'medium';
+    return BORDER_WIDTH_KEYWORDS[width] !== undefined ? BORDER_WIDTH_KEYWORDS[width] : this.parsePx(width) || 0;
+  }
+
+  private parsePx(value: string | undefined): number | null {
+    if (!value) return null;
+    const match = /^(-?[\d.]+)(px)?$/.exec(value.trim());
+    return match ? parseFloat(match[1]) : null;
+  }
+}
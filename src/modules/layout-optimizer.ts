@@ -252,9 +252,9 @@ export class LayoutOptimizer {
       el.tagName === 'div' && 
       el.children.length >= 2 && 
       (el.attributes.class?.includes('card') || 
-       el.styles['border-radius'] || 
+       el.styles['border-top-left-radius'] || 
        el.styles['box-shadow'] ||
-       el.styles['border'])
+       el.styles['border-top-style'])
     );
 
     if (cardCandidates.length < 2) return []; // 至少需要2个相似的结构才认为是组件
@@ -0,0 +1,176 @@
+import { ParsedElement } from '../types';
+import { CssMathEvaluator } from './css-math';
+import { StyleContext } from './style-computer';
+import { fillsContainingBlock } from './html-elements';
+
+// The box percentages are resolved against; height is null while it depends on content
+export interface ContainingBlock {
+  width: number;
+  height: number | null;
+}
+
+const SIDES = ['top', 'right', 'bottom', 'left'];
+
+// Margins and padding use the containing block's width on all four sides
+const WIDTH_RELATIVE_PROPERTIES = [
+  'width', 'min-width', 'max-width', 'left', 'right', 'text-indent', 'flex-basis'
+].concat(SIDES.map(side => `margin-${side}`), SIDES.map(side => `padding-${side}`));
+
+const HEIGHT_RELATIVE_PROPERTIES = ['height', 'min-height', 'max-height', 'top', 'bottom'];
+
+const PERCENTAGE = /^-?(?:\d+\.?\d*|\.\d+)%$/;
+
+/**
+ * Resolves percentage lengths once the containing block is known. Runs
+ * top-down over the computed styles: each element's content box becomes
+ * the containing block of its children, except for absolutely positioned
+ * ones, whose containing block is the padding box of the nearest positioned
+ * ancestor. Percentage heights against a content-sized containing block
+ * behave as `auto`, as in CSS.
+ */
+export class LengthResolver {
+  private mathEvaluator = new CssMathEvaluator();
+
+  resolve(
+    element: ParsedElement,
+    containingBlock: ContainingBlock,
+    context: StyleContext,
+    positionedBlock: ContainingBlock = containingBlock
+  ): void {
+    const ownBlock = this.getOwnContainingBlock(element.styles, containingBlock, positionedBlock, context);
+    const contentBox = this.resolveStyles(element.styles, ownBlock, context, element.tagName);
+    const childPositionedBlock = this.getPositionedBlock(element.styles, contentBox, positionedBlock);
+    for (const child of element.children) {
+      this.resolve(child, contentBox, context, childPositionedBlock);
+    }
+  }
+
+  // Absolutely positioned boxes belong to the nearest positioned ancestor, fixed ones to the viewport
+  getOwnContainingBlock(
+    styles: { [property: string]: string },
+    containingBlock: ContainingBlock,
+    positionedBlock: ContainingBlock,
+    context: StyleContext
+  ): ContainingBlock {
+    if (styles.position === 'fixed') {
+      return { width: context.viewport.width, height: context.viewport.height };
+    }
+    return styles.position === 'absolute' ? positionedBlock : containingBlock;
+  }
+
+  // A positioned element's padding box holds its absolutely positioned descendants; otherwise the ancestor's still does
+  getPositionedBlock(
+    styles: { [property: string]: string },
+    contentBox: ContainingBlock,
+    positionedBlock: ContainingBlock
+  ): ContainingBlock {
+    if (!styles.position || styles.position === 'static') return positionedBlock;
+    const paddingY = this.sumPx(styles, ['padding-top', 'padding-bottom']);
+    return {
+      width: contentBox.width + this.sumPx(styles, ['padding-left', 'padding-right']),
+      height: contentBox.height !== null ? contentBox.height + paddingY : null
+    };
+  }
+
+  // Resolves the percentages in one element's styles and returns its content box
+  resolveStyles(
+    styles: { [property: string]: string },
+    containingBlock: ContainingBlock,
+    context: StyleContext,
+    tagName: string
+  ): ContainingBlock {
+    for (const property of WIDTH_RELATIVE_PROPERTIES) {
+      this.resolveProperty(styles, property, containingBlock.width, context);
+    }
+    const isOutOfFlow = styles.position === 'absolute' || styles.position === 'fixed';
+    for (const property of HEIGHT_RELATIVE_PROPERTIES) {
+      const value = styles[property];
+      if (containingBlock.height !== null) {
+        this.resolveProperty(styles, property, containingBlock.height, context);
+      } else if (value !== undefined && value.indexOf('%') !== -1) {
+        // A positioned box's frame has its final height when its children are placed, so a plain percentage inset waits
+        const isInset = property === 'top' || property === 'bottom';
+        if (!(isOutOfFlow && isInset && PERCENTAGE.test(value.trim()))) delete styles[property];
+      }
+    }
+
+    const contentBox = this.getContentBox(styles, containingBlock, tagName);
+
+    // Gaps refer to the element's own content box
+    this.resolveProperty(styles, 'column-gap', contentBox.width, context);
+    if (contentBox.height !== null) {
+      this.resolveProperty(styles, 'row-gap', contentBox.height, context);
+    } else if (styles['row-gap'] !== undefined && styles['row-gap'].indexOf('%') !== -1) {
+      styles['row-gap'] = '0px';
+    }
+
+    return contentBox;
+  }
+
+  private resolveProperty(
+    styles: { [property: string]: string },
+    property: string,
+    basis: number,
+    context: StyleContext
+  ): void {
+    const value = styles[property];
+    if (value === undefined || value.indexOf('%') === -1) return;
+
+    const unitContext = {
+      fontSize: this.parsePx(styles['font-size']) || context.defaultFontSize,
+      rootFontSize: context.rootFontSize,
+      viewport: context.viewport,
+      percentBasis: basis
+    };
+    styles[property] = this.mathEvaluator.resolveLengths(this.mathEvaluator.resolve(value, unitContext), unitContext);
+  }
+
+  private getContentBox(
+    styles: { [property: string]: string },
+    containingBlock: ContainingBlock,
+    tagName: string
+  ): ContainingBlock {
+    const paddingX = this.sumPx(styles, ['padding-left', 'padding-right']);
+    const paddingY = this.sumPx(styles, ['padding-top', 'padding-bottom']);
+    const borderX = this.getBorderWidth(styles, 'left') + this.getBorderWidth(styles, 'right');
+    const borderY = this.getBorderWidth(styles, 'top') + this.getBorderWidth(styles, 'bottom');
+    const isBorderBox = styles['box-sizing'] === 'border-box';
+
+    let width = this.parsePx(styles.width);
+    if (width !== null) {
+      if (isBorderBox) width -= paddingX + borderX;
+    } else if (fillsContainingBlock(styles, tagName)) {
+      width = containingBlock.width - this.sumPx(styles, ['margin-left', 'margin-right']) - paddingX - borderX;
+    } else {
+      // Shrink-to-fit widths depend on content; the containing block is the closest bound
+      width = containingBlock.width - paddingX - borderX;
+    }
+
+    const maxWidth = this.parsePx(styles['max-width']);
+    const minWidth = this.parsePx(styles['min-width']);
+    if (maxWidth !== null) width = Math.min(width, isBorderBox ? maxWidth - paddingX - borderX : maxWidth);
+    if (minWidth !== null) width = Math.max(width, isBorderBox ? minWidth - paddingX - borderX : minWidth);
+
+    let height = this.parsePx(styles.height);
+    if (height !== null && isBorderBox) height -= paddingY + borderY;
+
+    return { width: Math.max(0, width), height: height !== null ? Math.max(0, height) : null };
+  }
+
+  private getBorderWidth(styles: { [property: string]: string }, side: string): number {
+    const style = styles[`border-${side}-style`];
+    if (!style || style === 'none' || style === 'hidden') return 0;
+    const width = styles[`border-${side}-width`] || 'medium';
+    return width === 'thin' ? 1 : width === 'medium' ? 3 : width === 'thick' ? 5 : this.parsePx(width) || 0;
+  }
+
+  private sumPx(styles: { [property: string]: string }, properties: string[]): number {
+    return properties.reduce((sum, property) => sum + (this.parsePx(styles[property]) || 0), 0);
+  }
+
+  private parsePx(value: string | undefined): number | null {
+    if (!value) return null;
+    const match = /^(-?[\d.]+)(px)?$/.exec(value.trim());
+    return match ? parseFloat(match[1]) : null;
+  }
+}
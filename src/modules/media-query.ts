@@ -0,0 +1,177 @@
+import { Viewport } from '../types';
+import { splitTopLevel, splitConditionParts } from './css-split';
+
+export const DEFAULT_VIEWPORT: Viewport = { width: 1440, height: 900, colorScheme: 'light' };
+
+// Media queries resolve em/rem against the initial font size, not the page's
+const INITIAL_FONT_SIZE = 16;
+
+const SCREEN_MEDIA_TYPES = ['all', 'screen'];
+
+type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+const REVERSED_COMPARISON: { [comparison: string]: Comparison } = {
+  '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '='
+};
+
+/**
+ * Evaluates `@media` query lists against the target viewport, the way a
+ * screen device of that size would. Supports media types, `not`/`only`,
+ * `and`/`or` conditions, `min-`/`max-` prefixes and the level 4 range
+ * syntax (`(400px <= width < 700px)`). Unknown features never match.
+ */
+export class MediaQueryEvaluator {
+  matches(queryList: string, viewport: Viewport): boolean {
+    const queries = splitTopLevel(queryList.trim().toLowerCase(), ',');
+    if (queries.length === 1 && !queries[0].trim()) {
+      return true;
+    }
+    return queries.some(query => this.evaluateQuery(query.trim(), viewport));
+  }
+
+  private evaluateQuery(query: string, viewport: Viewport): boolean {
+    const typed = /^(?:(not|only)\s+)?([a-z-]+)(?:\s+and\s+([\s\S]+))?$/.exec(query);
+    if (typed && typed[2] !== 'not') {
+      const typeMatches = SCREEN_MEDIA_TYPES.indexOf(typed[2]) !== -1;
+      const result = typeMatches && (!typed[3] || this.evaluateCondition(typed[3], viewport));
+      return typed[1] === 'not' ? !result : result;
+    }
+    return this.evaluateCondition(query, viewport);
+  }
+
+  // <media-condition>: `not (a)`, `(a) and (b) ...` or `(a) or (b) ...`
+  private evaluateCondition(condition: string, viewport: Viewport): boolean {
+    const parts = splitConditionParts(condition);
+    if (parts.length === 0) return false;
+
+    if (parts[0] === 'not') {
+      return parts.length === 2 && !this.evaluateInParens(parts[1], viewport);
+    }
+
+    const operator = parts.length > 1 ? parts[1] : 'and';
+    const operands: string[] = [];
+    for (let i = 0; i < parts.length; i += 2) {
+      if (i > 0 && parts[i - 1] !== operator) return false; // `and` and `or` cannot be mixed
+      operands.push(parts[i]);
+    }
+
+    return operator === 'or'
+      ? operands.some(operand => this.evaluateInParens(operand, viewport))
+      : operands.every(operand => this.evaluateInParens(operand, viewport));
+  }
+
+  private evaluateInParens(part: string, viewport: Viewport): boolean {
+    if (part.charAt(0) !== '(' || part.charAt(part.length - 1) !== ')') return false;
+    const inner = part.slice(1, -1).trim();
+
+    if (inner.charAt(0) === '(' || /^not\s/.test(inner)) {
+      return this.evaluateCondition(inner, viewport);
+    }
+
+    const range = /^([^<>=]+?)\s*(<=|>=|<|>|=)\s*([^<>=]+?)(?:\s*(<=|>=|<|>|=)\s*([^<>=]+))?$/.exec(inner);
+    if (range && inner.indexOf(':') === -1) {
+      return this.evaluateRange(range, viewport);
+    }
+
+    const colon = inner.indexOf(':');
+    if (colon === -1) {
+      return this.evaluateBooleanFeature(inner, viewport);
+    }
+
+    const name = inner.slice(0, colon).trim();
+    const value = inner.slice(colon + 1).trim();
+    const prefix = /^(min|max)-/.exec(name);
+    if (prefix) {
+      return this.compareFeature(name.slice(4), prefix[1] === 'min' ? '>=' : '<=', value, viewport);
+    }
+    return this.compareFeature(name, '=', value, viewport);
+  }
+
+  // `width >= 600px`, `600px <= width` or `400px < width <= 700px`
+  private evaluateRange(range: RegExpExecArray, viewport: Viewport): boolean {
+    const first = range[1].trim();
+    const second = range[3].trim();
+
+    if (range[4]) {
+      return this.compareFeature(second, REVERSED_COMPARISON[range[2]], first, viewport) &&
+        this.compareFeature(second, range[4] as Comparison, range[5].trim(), viewport);
+    }
+    if (/^[a-z-]+$/.test(first)) {
+      return this.compareFeature(first, range[2] as Comparison, second, viewport);
+    }
+    return this.compareFeature(second, REVERSED_COMPARISON[range[2]], first, viewport);
+  }
+
+  private compareFeature(name: string, comparison: Comparison, value: string, viewport: Viewport): boolean {
+    switch (name) {
+      case 'width':
+      case 'height': {
+        const length = this.parseLength(value);
+        return length !== null && this.compare(name === 'width' ? viewport.width : viewport.height, comparison, length);
+      }
+      case 'aspect-ratio': {
+        const ratio = this.parseRatio(value);
+        return ratio !== null && this.compare(viewport.width / viewport.height, comparison, ratio);
+      }
+      case 'orientation':
+        return comparison === '=' && value === (viewport.height >= viewport.width ? 'portrait' : 'landscape');
+      case 'prefers-color-scheme':
+        return comparison === '=' && value === viewport.colorScheme;
+      case 'prefers-reduced-motion':
+      case 'prefers-reduced-transparency':
+      case 'prefers-contrast':
+        return comparison === '=' && value === 'no-preference';
+      case 'hover':
+      case 'any-hover':
+        return comparison === '=' && value === 'hover';
+      case 'pointer':
+      case 'any-pointer':
+        return comparison === '=' && value === 'fine';
+      default:
+        return false;
+    }
+  }
+
+  private evaluateBooleanFeature(name: string, viewport: Viewport): boolean {
+    switch (name) {
+      case 'width': return viewport.width > 0;
+      case 'height': return viewport.height > 0;
+      case 'orientation':
+      case 'aspect-ratio':
+      case 'prefers-color-scheme':
+      case 'hover':
+      case 'any-hover':
+      case 'pointer':
+      case 'any-pointer':
+      case 'color':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private compare(actual: number, comparison: Comparison, expected: number): boolean {
+    switch (comparison) {
+      case '<': return actual < expected;
+      case '<=': return actual <= expected;
+      case '>': return actual > expected;
+      case '>=': return actual >= expected;
+      default: return actual === expected;
+    }
+  }
+
+  private parseLength(value: string): number | null {
+    const match = /^(-?[\d.]+)(px|em|rem)?$/.exec(value);
+    if (!match) return null;
+    const number = parseFloat(match[1]);
+    if (!match[2]) return number === 0 ? 0 : null;
+    return match[2] === 'px' ? number : number * INITIAL_FONT_SIZE;
+  }
+
+  private parseRatio(value: string): number | null {
+    const match = /^([\d.]+)\s*(?:\/\s*([\d.]+))?$/.exec(value);
+    if (!match) return null;
+    const denominator = match[2] ? parseFloat(match[2]) : 1;
+    return denominator ? parseFloat(match[1]) / denominator : null;
+  }
+}
@@ -1,286 +1,1072 @@
-import { ParsedElement } from '../types';
+import { ParsedElement, ParsedNode, RGBA, FontSubstitution, isTextNodeData } from '../types';
 import { StyleProcessor } from './style-processor';
+import { ImageStore, ImageSize } from './image-store';
+import { SvgSerializer } from './svg-serializer';
+import { FontResolver, FontRequest } from './font-resolver';
+import { ANONYMOUS_TEXT, INLINE_TEXT_ELEMENTS, TEXT_BLOCK_ELEMENTS, isInlineDisplay } from './html-elements';
+import { DEFAULT_VIEWPORT } from './media-query';
+import { GridLayout, GridPlan, GridTrack } from './grid-layout';
+
+const LINK_COLOR: RGBA = { r: 0, g: 0, b: 0.933, a: 1 };
+
+// Figma's soft line break: a forced break stays within the paragraph, as in CSS
+const LINE_SEPARATOR = '\u2028';
+
+const TEXT_CASES: { [transform: string]: TextCase } = {
+  none: 'ORIGINAL', uppercase: 'UPPER', lowercase: 'LOWER', capitalize: 'TITLE'
+};
+
+// Figma has no double or dashed decorations
+const DECORATION_STYLES: { [style: string]: TextDecorationStyle } = {
+  solid: 'SOLID', double: 'SOLID', dotted: 'DOTTED', dashed: 'DOTTED', wavy: 'WAVY'
+};
+
+// Figma cannot shift the baseline of a range, so raised and lowered text uses these characters where it can
+const SUPERSCRIPTS: { [char: string]: string } = {
+  '0': '\u2070', '1': '\u00b9', '2': '\u00b2', '3': '\u00b3', '4': '\u2074', '5': '\u2075', '6': '\u2076',
+  '7': '\u2077', '8': '\u2078', '9': '\u2079', '+': '\u207a', '-': '\u207b', '\u2212': '\u207b', '=': '\u207c',
+  '(': '\u207d', ')': '\u207e', 'i': '\u2071', 'n': '\u207f', ' ': ' '
+};
+
+const SUBSCRIPTS: { [char: string]: string } = {
+  '0': '\u2080', '1': '\u2081', '2': '\u2082', '3': '\u2083', '4': '\u2084', '5': '\u2085', '6': '\u2086',
+  '7': '\u2087', '8': '\u2088', '9': '\u2089', '+': '\u208a', '-': '\u208b', '\u2212': '\u208b', '=': '\u208c',
+  '(': '\u208d', ')': '\u208e', 'a': '\u2090', 'e': '\u2091', 'o': '\u2092', 'x': '\u2093', ' ': ' '
+};
+
+// Unordered list markers; the numbered styles all count in decimal
+const BULLETS: { [type: string]: string } = {
+  disc: '\u2022', circle: '\u25e6', square: '\u25aa'
+};
+
+// Formatting a stretch of text inherits from its inline ancestors
+interface TextRunStyle {
+  fontFamily?: string;
+  fontWeight?: number;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  decorationStyle?: TextDecorationStyle;
+  decorationColor?: RGBA;
+  decorationThickness?: TextDecorationThickness;
+  color?: RGBA;
+  fontSize?: number;
+  letterSpacing?: LetterSpacing;
+  textCase?: TextCase;
+  href?: string;
+  baselineShift?: 'super' | 'sub';
+  baselineFontSize?: number; // The font size around raised or lowered text
+}
+
+interface TextRun {
+  text: string;
+  style: TextRunStyle;
+}
+
+// The width text may take: in block flow it fills the line, as a flex or grid item it only takes what its content needs
+interface AvailableWidth {
+  width: number;
+  shrinkToFit: boolean;
+}
+
+// A child in normal flow; text between block children has no element of its own
+interface FlowChild {
+  node: SceneNode;
+  element: ParsedElement | null;
+}
+
+// An absolutely positioned child, placed by its insets in the frame of its containing block once that has its size
+interface PositionedChild {
+  node: SceneNode;
+  element: ParsedElement;
+  // The frame it would have been in and the flow child before it there, which give its static position
+  parent: FrameNode;
+  parentElement: ParsedElement;
+  previous: SceneNode | null;
+}
 
 export class NodeFactory {
   private styleProcessor: StyleProcessor;
+  private imageStore: ImageStore;
+  private svgSerializer: SvgSerializer;
+  private fontResolver: FontResolver;
+  private gridLayout: GridLayout;
+  // The item counters of the lists being created, innermost last
+  private listCounters: { count: number; isOrdered: boolean }[] = [];
+  // Positioned children that static containers pass up to the nearest positioned ancestor, while its children are created
+  private pendingPositioned: PositionedChild[] | null = null;
 
   constructor() {
-    this.styleProcessor = new StyleProcessor();
+    this.imageStore = new ImageStore();
+    this.styleProcessor = new StyleProcessor(this.imageStore);
+    this.svgSerializer = new SvgSerializer();
+    this.fontResolver = new FontResolver();
+    this.gridLayout = new GridLayout();
   }
 
-  async loadFonts(): Promise<void> {
-    try {
-      await Promise.all([
-        figma.loadFontAsync({ family: "Inter", style: "Regular" }),
-        figma.loadFontAsync({ family: "Inter", style: "Medium" }),
-        figma.loadFontAsync({ family: "Inter", style: "Bold" })
-      ]);
-    } catch (error) {
-      console.warn('字体加载失败，使用默认字体:', error);
-      await figma.loadFontAsync({ family: "Inter", style: "Regular" });
-    }
+  // The user's table of CSS font families to use other Figma fonts for
+  setFontSubstitutions(substitutions: { [family: string]: string }): void {
+    this.fontResolver.setSubstitutions(substitutions);
   }
 
-  async createFigmaNodeFromElement(element: ParsedElement): Promise<SceneNode | null> {
-    try {
-      await this.loadFonts();
-      
-      switch (element.tagName) {
-        case 'div':
-        case 'section':
-        case 'article':
-        case 'header':
-        case 'footer':
-          return await this.createContainerNode(element);
-        
-        case 'h1': case 'h2': case 'h3': 
-        case 'h4': case 'h5': case 'h6':
-        case 'p': case 'span':
-          return await this.createTextNode(element);
-        
-        case 'button':
-          return await this.createButtonNode(element);
-        
-        case 'input':
-        case 'textarea':
-          return await this.createInputNode(element);
-        
-        case 'img':
-          return await this.createImageNode(element);
-        
-        case 'ul': case 'ol':
-          return await this.createListNode(element);
-        
-        case 'li':
-          return await this.createListItemNode(element);
-        
-        default:
-          return await this.createContainerNode(element);
+  // Fonts that were replaced because the requested one is not available, collected since the last call
+  takeFontReport(): FontSubstitution[] {
+    return this.fontResolver.takeReport();
+  }
+
+  // All elements of the document being converted, so that SVG <use> can refer to any of them by id
+  setDocument(elements: ParsedElement[]): void {
+    this.svgSerializer.setDocument(elements);
+  }
+
+  // Image files supplied with the HTML document, by file name, for URLs the plugin cannot fetch
+  setImageFiles(files: { [name: string]: Uint8Array }): void {
+    this.imageStore.setFiles(files);
+  }
+
+  /**
+   * Loads every font the elements will use before any node is created, so
+   * that creating nodes never waits for a font. Text runs are collected the
+   * same way createTextNode does, for each element that may become one.
+   */
+  async loadFonts(elements: ParsedElement[]): Promise<void> {
+    const requests: FontRequest[] = [];
+    const visit = (element: ParsedElement) => {
+      const base = this.getFontRequest(element.styles);
+      requests.push(base);
+      for (const run of this.collectTextRuns(element.childNodes || [], this.resolveRunStyle(element, {}), [])) {
+        requests.push(this.getRunFontRequest(run.style, base));
       }
+      element.children.forEach(visit);
+    };
+    elements.forEach(visit);
+
+    await this.fontResolver.loadFonts(requests);
+  }
+
+  // The font request for an element's computed font-family, font-weight and font-style
+  private getFontRequest(styles: { [property: string]: string }): FontRequest {
+    return {
+      family: styles['font-family'] || '',
+      weight: styles['font-weight'] ? this.fontResolver.parseWeight(styles['font-weight']) : 400,
+      italic: this.fontResolver.isItalic(styles['font-style'])
+    };
+  }
+
+  // A text run keeps the font properties it does not set itself from the text node
+  private getRunFontRequest(style: TextRunStyle, base: FontRequest): FontRequest {
+    return {
+      family: style.fontFamily !== undefined ? style.fontFamily : base.family,
+      weight: style.fontWeight !== undefined ? style.fontWeight : base.weight,
+      italic: style.italic !== undefined ? style.italic : base.italic
+    };
+  }
+
+  async createFigmaNodeFromElement(
+    element: ParsedElement,
+    available: AvailableWidth = { width: DEFAULT_VIEWPORT.width, shrinkToFit: false }
+  ): Promise<SceneNode | null> {
+    try {
+      const node = await this.createNodeForElement(element, available);
+      // Borders the frame's own stroke cannot draw go over the finished frame
+      if (node.type === 'FRAME') this.styleProcessor.applyBorderLayers(node, element);
+      // Opacity, blend modes and filters cover the node together with its children
+      this.styleProcessor.applyCompositing(node, element);
+      // The transform moves the node from (0, 0); whoever places it must offset x/y rather than set them
+      this.styleProcessor.applyTransform(node, element);
+      return node;
     } catch (error) {
       console.error('创建Figma节点时出错:', error);
       return null;
     }
   }
 
-  async createContainerNode(element: ParsedElement): Promise<FrameNode> {
+  // Notes about CSS that could only be approximated, collected since the last call
+  takeWarnings(): string[] {
+    return this.styleProcessor.takeWarnings();
+  }
+
+  private async createNodeForElement(element: ParsedElement, available: AvailableWidth): Promise<SceneNode> {
+    if (this.isTextElement(element)) {
+      return await this.createTextNode(element, element.childNodes || [], available);
+    }
+    
+    switch (element.tagName) {
+      case 'div':
+      case 'section':
+      case 'article':
+      case 'header':
+      case 'footer':
+        return await this.createContainerNode(element, available);
+      
+      case 'button':
+        return await this.createButtonNode(element);
+      
+      case 'input':
+      case 'textarea':
+        return await this.createInputNode(element);
+      
+      case 'img':
+        return await this.createImageNode(element);
+
+      case 'svg':
+        return await this.createSvgNode(element);
+      
+      case 'ul': case 'ol':
+        return await this.createListNode(element, available);
+      
+      case 'li':
+        return await this.createListItemNode(element, available);
+      
+      default:
+        return await this.createContainerNode(element, available);
+    }
+  }
+
+  async createContainerNode(
+    element: ParsedElement,
+    available: AvailableWidth = { width: DEFAULT_VIEWPORT.width, shrinkToFit: false }
+  ): Promise<FrameNode> {
     const frame = figma.createFrame();
     frame.name = element.tagName.toUpperCase();
     
-    // Apply basic styling first
-    this.styleProcessor.applyBasicStyles(frame, element);
+    // Apply basic styling first; this sizes the frame to its box
+    await this.styleProcessor.applyBasicStyles(frame, element);
     
     // Determine layout type
-    const isFlexContainer = element.styles.display === 'flex';
-    const isBlockContainer = !isFlexContainer && (element.tagName === 'div' || element.tagName === 'section' || element.tagName === 'article');
-    
-    // Set intelligent default sizes based on content and context
-    let defaultWidth = 800; // Wider default for better layout
-    let defaultHeight: number | 'auto' = 'auto';
+    const isFlexContainer = element.styles.display === 'flex' || element.styles.display === 'inline-flex';
+    const isGridContainer = element.styles.display === 'grid' || element.styles.display === 'inline-grid';
+
+    // A width that depends on content starts from the available width, within the element's limits
+    const box = element.box;
+    const isShrinkToFit = !box || box.width === null;
+    if (isShrinkToFit) {
+      const margins = box ? box.margin.left + box.margin.right : 0;
+      const width = box ? Math.min(Math.max(available.width - margins, box.minWidth), box.maxWidth) : available.width;
+      frame.resize(Math.max(width, 0.01), frame.height);
+    }
     
-    // Adjust defaults based on element type
-    if (element.tagName === 'header' || element.tagName === 'nav') {
-      defaultWidth = 1200;
-      defaultHeight = 60;
-    } else if (element.tagName === 'footer') {
-      defaultWidth = 1200;
-      defaultHeight = 80;
+    if (isFlexContainer) {
+      this.applyFlexLayout(frame, element);
     }
     
-    // Apply width
-    if (element.styles.width) {
-      const width = this.styleProcessor.parseSize(element.styles.width);
-      if (width > 0) {
-        frame.resize(width, frame.height);
-      }
+    // Create child nodes; text wraps within the content box
+    const contentWidth = frame.width - frame.paddingLeft - frame.paddingRight;
+    const isLayoutContainer = isFlexContainer || isGridContainer;
+    const { nodes: children, positioned } = await this.createChildNodes(frame, element, isLayoutContainer,
+      { width: Math.max(contentWidth, 1), shrinkToFit: isLayoutContainer });
+
+    if (isFlexContainer) {
+      this.placeFlexItems(frame, element, children);
+    } else if (isGridContainer) {
+      this.layoutGridItems(frame, element, children, isShrinkToFit);
     } else {
-      frame.resize(defaultWidth, frame.height);
+      this.layoutBlockChildren(frame, element, children, isShrinkToFit);
+    }
+
+    // A positioned element is the containing block of its positioned descendants; otherwise they go on up
+    for (const child of positioned) {
+      if (this.pendingPositioned && !this.isContainingBlock(element, child.element)) {
+        this.pendingPositioned.push(child);
+      } else {
+        this.placePositionedChild(frame, element, child);
+      }
     }
+
+    // Gradients, positioned images and percentage radii depend on the final size
+    await this.styleProcessor.applyBackground(frame, element);
+    this.styleProcessor.applyCornerRadius(frame, element);
     
-    if (isFlexContainer) {
-      // Configure Auto Layout for flex containers
-      frame.layoutMode = 'HORIZONTAL'; // Default flex direction
-      
-      // Handle flex-direction
-      if (element.styles['flex-direction'] === 'column' || element.styles['flex-direction'] === 'column-reverse') {
-        frame.layoutMode = 'VERTICAL';
+    return frame;
+  }
+
+  /**
+   * Turns a flex container into an auto layout frame before its items are
+   * created: direction, wrapping, gaps and how the items line up. The padding
+   * is the element's own. Sizes the layout engine knows stay fixed and the
+   * others hug the items, so an inline-flex box is as wide as its content.
+   */
+  private applyFlexLayout(frame: FrameNode, element: ParsedElement): void {
+    const styles = element.styles;
+    const direction = styles['flex-direction'] || 'row';
+    const isRow = direction.indexOf('column') !== 0;
+    const isReverse = /-reverse$/.test(direction);
+    frame.layoutMode = isRow ? 'HORIZONTAL' : 'VERTICAL';
+
+    // The main-axis gap of a row is column-gap
+    frame.itemSpacing = this.parseGap(isRow ? styles['column-gap'] : styles['row-gap']);
+
+    const wrap = styles['flex-wrap'] || 'nowrap';
+    const isWrapped = wrap !== 'nowrap' && isRow;
+    if (isWrapped) {
+      frame.layoutWrap = 'WRAP';
+      frame.counterAxisSpacing = this.parseGap(styles['row-gap']);
+      if (styles['align-content'] === 'space-between') {
+        frame.counterAxisAlignContent = 'SPACE_BETWEEN';
       }
-      
-      // Handle gap
-      if (element.styles.gap) {
-        const gap = this.styleProcessor.parseSize(element.styles.gap);
-        frame.itemSpacing = gap;
-      } else {
-        frame.itemSpacing = 12; // Better default spacing
+      if (wrap === 'wrap-reverse') {
+        this.styleProcessor.warn('flex-wrap: wrap-reverse 无法表示，已按 wrap 换行');
       }
-      
-      // Handle justify-content (main axis alignment)
-      switch (element.styles['justify-content']) {
-        case 'center':
-          frame.primaryAxisAlignItems = 'CENTER';
-          break;
-        case 'flex-end':
-        case 'end':
-          frame.primaryAxisAlignItems = 'MAX';
-          break;
-        case 'space-between':
-          frame.primaryAxisAlignItems = 'SPACE_BETWEEN';
-          break;
-        case 'space-around':
-        case 'space-evenly':
-          frame.primaryAxisAlignItems = 'SPACE_BETWEEN'; // Closest approximation
-          break;
-        default:
-          frame.primaryAxisAlignItems = 'MIN'; // flex-start
+    } else if (wrap !== 'nowrap') {
+      this.styleProcessor.warn('Figma 只能横向换行，纵向 flex 容器的 flex-wrap 已忽略');
+    }
+
+    // Lines wrap at the frame's width, so a wrapping row keeps the width it was given
+    const box = element.box;
+    const hasWidth = !!box && box.width !== null;
+    const hasHeight = !!box && box.height !== null;
+    frame.primaryAxisSizingMode = (isRow ? hasWidth || isWrapped : hasHeight) ? 'FIXED' : 'AUTO';
+    frame.counterAxisSizingMode = (isRow ? hasHeight : hasWidth) ? 'FIXED' : 'AUTO';
+    if (box && !hasHeight && box.minHeight > 0) frame.minHeight = box.minHeight;
+    if (box && !hasHeight && box.maxHeight < Infinity) frame.maxHeight = box.maxHeight;
+
+    // Handle justify-content (main axis alignment); a reversed line starts at the end
+    switch (styles['justify-content']) {
+      case 'center':
+        frame.primaryAxisAlignItems = 'CENTER';
+        break;
+      case 'flex-end':
+        frame.primaryAxisAlignItems = isReverse ? 'MIN' : 'MAX';
+        break;
+      case 'end':
+      case 'right':
+        frame.primaryAxisAlignItems = 'MAX';
+        break;
+      case 'start':
+      case 'left':
+        frame.primaryAxisAlignItems = 'MIN';
+        break;
+      case 'space-between':
+        frame.primaryAxisAlignItems = 'SPACE_BETWEEN';
+        break;
+      default:
+        // flex-start; space-around and space-evenly are spread once the items are placed
+        frame.primaryAxisAlignItems = isReverse ? 'MAX' : 'MIN';
+    }
+
+    // Handle align-items (cross axis alignment)
+    frame.counterAxisAlignItems = this.getCrossAlignment(styles['align-items'], isRow);
+  }
+
+  /**
+   * Adds the items of a flex container in `order`, reversed for the
+   * reverse directions, then sizes them: growing items fill the free space
+   * and stretched items the line. Items can only stretch or follow the
+   * container's alignment, since Figma aligns a whole line at once.
+   */
+  private placeFlexItems(frame: FrameNode, element: ParsedElement, children: FlowChild[]): void {
+    const isRow = frame.layoutMode === 'HORIZONTAL';
+    const items = this.sortByOrder(children);
+    if (/-reverse$/.test(element.styles['flex-direction'] || '')) {
+      items.reverse();
+    }
+
+    // Hidden items take no space; auto layout skips them as well
+    const visible = items.filter(item => !item.element || item.element.styles.display !== 'none');
+    for (const item of items) {
+      frame.appendChild(item.node);
+      if (visible.indexOf(item) === -1) item.node.visible = false;
+    }
+
+    for (const item of visible) {
+      this.alignFlexItem(frame, element, item, isRow);
+    }
+
+    // Figma shares the free space equally, so only whether an item grows carries over
+    const grows = visible.map(item => (item.element ? parseFloat(item.element.styles['flex-grow']) || 0 : 0));
+    const growing = visible.filter((item, index) => grows[index] > 0);
+    if (frame.primaryAxisSizingMode === 'FIXED') {
+      for (const item of growing) {
+        if (!('layoutGrow' in item.node)) continue;
+        if (isRow && item.node.type === 'TEXT') item.node.textAutoResize = 'HEIGHT';
+        this.fixAxis(item.node, isRow);
+        item.node.layoutGrow = 1;
       }
-      
-      // Handle align-items (cross axis alignment)
-      switch (element.styles['align-items']) {
-        case 'center':
-          frame.counterAxisAlignItems = 'CENTER';
-          break;
-        case 'flex-end':
-        case 'end':
-          frame.counterAxisAlignItems = 'MAX';
-          break;
-        case 'stretch':
-          frame.counterAxisAlignItems = 'MIN'; // Fallback since STRETCH not available
-          break;
-        default:
-          frame.counterAxisAlignItems = 'MIN'; // flex-start
+      if (grows.some(grow => grow > 0 && grow !== Math.max(...grows))) {
+        this.styleProcessor.warn('Figma 中的填充项目平分剩余空间，不同的 flex-grow 比例已按相同处理');
       }
-      
-      // Set sizing mode for better responsiveness
-      frame.primaryAxisSizingMode = 'AUTO';
-      frame.counterAxisSizingMode = 'AUTO';
-      
-      // Apply padding for flex containers
-      const padding = this.styleProcessor.parseSize(element.styles.padding || '16');
-      frame.paddingTop = frame.paddingRight = frame.paddingBottom = frame.paddingLeft = padding;
     }
-    
-    // Create child nodes
-    if (isFlexContainer) {
-      // For flex containers, add children with Auto Layout
-      for (const child of element.children) {
-        const childNode = await this.createFigmaNodeFromElement(child);
-        if (childNode) {
-          frame.appendChild(childNode);
+
+    this.spreadFlexItems(frame, element.styles['justify-content'], visible, growing.length > 0);
+  }
+
+  // align-items: stretch and align-self
+  private alignFlexItem(frame: FrameNode, container: ParsedElement, item: FlowChild, isRow: boolean): void {
+    const node = item.node;
+    const styles = item.element ? item.element.styles : {};
+    const alignSelf = styles['align-self'] && styles['align-self'] !== 'auto' ? styles['align-self'] : container.styles['align-items'];
+
+    // An item with its own cross size does not stretch and sits at the start instead
+    const box = item.element ? item.element.box : undefined;
+    const hasCrossSize = !!box && (isRow ? box.height : box.width) !== null;
+    if ((!alignSelf || alignSelf === 'normal' || alignSelf === 'stretch') && !hasCrossSize && 'layoutAlign' in node) {
+      // Text in a row keeps its height, its lines start at the top either way
+      if (isRow && node.type === 'TEXT') return;
+      if (node.type === 'TEXT') node.textAutoResize = 'HEIGHT';
+      this.fixAxis(node, !isRow);
+      node.layoutAlign = 'STRETCH';
+      return;
+    }
+
+    if (this.getCrossAlignment(alignSelf, isRow) !== frame.counterAxisAlignItems) {
+      this.styleProcessor.warn(`align-self: ${alignSelf} 无法单独设置，已按容器的 align-items 对齐`);
+    }
+  }
+
+  private getCrossAlignment(value: string | undefined, isRow: boolean): 'MIN' | 'MAX' | 'CENTER' | 'BASELINE' {
+    switch (value) {
+      case 'center':
+        return 'CENTER';
+      case 'flex-end':
+      case 'end':
+      case 'self-end':
+        return 'MAX';
+      case 'baseline':
+      case 'first baseline':
+        return isRow ? 'BASELINE' : 'MIN';
+      default:
+        return 'MIN'; // flex-start, and stretch, which each item applies for itself
+    }
+  }
+
+  /**
+   * space-around and space-evenly have no auto layout mode; the free space
+   * of the line is shared out into the item spacing and the padding at
+   * either end instead. Growing items leave no free space, and items that
+   * overflow are centred as CSS does.
+   */
+  private spreadFlexItems(frame: FrameNode, justify: string | undefined, items: FlowChild[], hasGrowing: boolean): void {
+    if (justify !== 'space-around' && justify !== 'space-evenly') return;
+    if (frame.layoutWrap === 'WRAP') {
+      this.styleProcessor.warn(`justify-content: ${justify} 无法用于换行的容器，已按 space-between 排列`);
+      frame.primaryAxisAlignItems = 'SPACE_BETWEEN';
+      return;
+    }
+    if (hasGrowing || frame.primaryAxisSizingMode !== 'FIXED' || items.length === 0) return;
+
+    const isRow = frame.layoutMode === 'HORIZONTAL';
+    const used = items.reduce((sum, item) => sum + (isRow ? item.node.width : item.node.height), 0) +
+      frame.itemSpacing * (items.length - 1);
+    const free = (isRow
+      ? frame.width - frame.paddingLeft - frame.paddingRight
+      : frame.height - frame.paddingTop - frame.paddingBottom) - used;
+    if (free <= 0) {
+      frame.primaryAxisAlignItems = 'CENTER';
+      return;
+    }
+
+    // space-evenly: the same space everywhere; space-around: half a share at each end
+    const share = justify === 'space-evenly' ? free / (items.length + 1) : free / items.length;
+    const edge = justify === 'space-evenly' ? share : share / 2;
+    frame.itemSpacing += share;
+    if (isRow) {
+      frame.paddingLeft += edge;
+      frame.paddingRight += edge;
+    } else {
+      frame.paddingTop += edge;
+      frame.paddingBottom += edge;
+    }
+  }
+
+  // An auto layout frame that fills its parent on an axis cannot also hug its content on it
+  private fixAxis(node: SceneNode, horizontal: boolean): void {
+    if (node.type !== 'FRAME' || node.layoutMode === 'NONE') return;
+    if ((node.layoutMode === 'HORIZONTAL') === horizontal) {
+      node.primaryAxisSizingMode = 'FIXED';
+    } else {
+      node.counterAxisSizingMode = 'FIXED';
+    }
+  }
+
+  // Flex and grid items in `order`, keeping document order among equals
+  private sortByOrder(children: FlowChild[]): FlowChild[] {
+    return children
+      .map((child, index) => ({ child, index, order: child.element ? parseInt(child.element.styles.order, 10) || 0 : 0 }))
+      .sort((a, b) => a.order - b.order || a.index - b.index)
+      .map(item => item.child);
+  }
+
+  // `normal` is no gap in flex layout
+  private parseGap(value: string | undefined): number {
+    return value && value !== 'normal' ? this.styleProcessor.parseSize(value) : 0;
+  }
+
+  /**
+   * Puts the items of a grid container in the cells GridLayout works out
+   * for them. Figma's grid auto layout takes the tracks as they are; where
+   * the plugin API has no grid layout, each row becomes a horizontal auto
+   * layout with the track sizes worked out here and empty cells kept open.
+   */
+  private layoutGridItems(frame: FrameNode, element: ParsedElement, children: FlowChild[], isShrinkToFit: boolean): void {
+    const box = element.box;
+    const hasHeight = !!box && box.height !== null;
+
+    // Hidden items take no cell
+    const items = this.sortByOrder(children).filter(child => {
+      const isHidden = !!child.element && child.element.styles.display === 'none';
+      if (isHidden) child.node.remove();
+      return !isHidden;
+    });
+
+    const contentWidth = frame.width - frame.paddingLeft - frame.paddingRight;
+    const contentHeight = frame.height - frame.paddingTop - frame.paddingBottom;
+    const plan = this.gridLayout.plan(
+      element.styles,
+      items.map(item => (item.element ? item.element.styles : null)),
+      isShrinkToFit ? null : contentWidth,
+      hasHeight ? contentHeight : null
+    );
+    plan.warnings.forEach(message => this.styleProcessor.warn(message));
+
+    if ('appendChildAt' in frame) {
+      this.buildGridLayout(frame, element, items, plan, isShrinkToFit, hasHeight);
+    } else {
+      this.buildGridRows(frame, element, items, plan, isShrinkToFit, hasHeight);
+    }
+  }
+
+  private buildGridLayout(
+    frame: FrameNode,
+    container: ParsedElement,
+    items: FlowChild[],
+    plan: GridPlan,
+    isShrinkToFit: boolean,
+    hasHeight: boolean
+  ): void {
+    frame.layoutMode = 'GRID';
+    frame.gridColumnCount = plan.columns.length;
+    frame.gridRowCount = plan.rows.length;
+    frame.gridColumnGap = plan.columnGap;
+    frame.gridRowGap = plan.rowGap;
+    frame.layoutSizingHorizontal = isShrinkToFit ? 'HUG' : 'FIXED';
+    frame.layoutSizingVertical = hasHeight ? 'FIXED' : 'HUG';
+
+    // `fr` tracks only share out the free space of an axis with a fixed size
+    this.setGridTracks(frame.gridColumnSizes, plan.columns, !isShrinkToFit);
+    this.setGridTracks(frame.gridRowSizes, plan.rows, hasHeight);
+
+    items.forEach((item, index) => {
+      const node = item.node;
+      const area = plan.areas[index];
+      try {
+        frame.appendChildAt(node, area.row, area.column);
+        if ('gridRowSpan' in node) {
+          node.gridRowSpan = area.rowSpan;
+          node.gridColumnSpan = area.columnSpan;
         }
+      } catch (error) {
+        // Items that overlap in CSS cannot share cells in Figma
+        this.styleProcessor.warn('重叠的网格项目无法放入同一单元格，已改为绝对定位');
+        frame.appendChild(node);
+        if ('layoutPositioning' in node) node.layoutPositioning = 'ABSOLUTE';
+        return;
       }
-    } else if (isBlockContainer) {
-      // For block containers, use vertical stacking with proper spacing
-      frame.layoutMode = 'VERTICAL';
-      frame.itemSpacing = 16;
-      frame.paddingTop = frame.paddingRight = frame.paddingBottom = frame.paddingLeft = 20;
-      frame.primaryAxisSizingMode = 'AUTO';
-      frame.counterAxisSizingMode = 'AUTO';
-      
-      for (const child of element.children) {
-        const childNode = await this.createFigmaNodeFromElement(child);
-        if (childNode) {
-          frame.appendChild(childNode);
-        }
+
+      const alignment = this.getGridItemAlignment(container, item);
+      if (!('gridChildHorizontalAlign' in node)) return;
+      if (alignment.horizontal === null) {
+        if (node.type === 'TEXT') node.textAutoResize = 'HEIGHT';
+        node.layoutSizingHorizontal = 'FILL';
+      } else {
+        node.gridChildHorizontalAlign = alignment.horizontal;
       }
-    } else {
-      // For other containers, use manual positioning
-      let yOffset = 20; // Start with some padding
-      const xOffset = 20;
-      
-      for (const child of element.children) {
-        const childNode = await this.createFigmaNodeFromElement(child);
-        if (childNode) {
-          childNode.x = xOffset;
-          childNode.y = yOffset;
-          frame.appendChild(childNode);
-          yOffset += childNode.height + 16; // Add spacing between elements
+      if (alignment.vertical === null) {
+        node.layoutSizingVertical = 'FILL';
+      } else {
+        node.gridChildVerticalAlign = alignment.vertical;
+      }
+    });
+  }
+
+  private setGridTracks(sizes: GridTrackSize[], tracks: GridTrack[], canFlex: boolean): void {
+    tracks.forEach((track, index) => {
+      const size = sizes[index];
+      size.type = track.type === 'FLEX' && !canFlex ? 'HUG' : track.type;
+      if (size.type !== 'HUG') size.value = track.value;
+    });
+  }
+
+  /**
+   * The grid as a vertical stack of rows. Items are sized to their cells,
+   * empty cells are transparent frames that keep the columns in line, and
+   * items spanning several rows are placed over the rows they cover.
+   */
+  private buildGridRows(
+    frame: FrameNode,
+    container: ParsedElement,
+    items: FlowChild[],
+    plan: GridPlan,
+    isShrinkToFit: boolean,
+    hasHeight: boolean
+  ): void {
+    const contentWidth = frame.width - frame.paddingLeft - frame.paddingRight;
+    const contentHeight = frame.height - frame.paddingTop - frame.paddingBottom;
+    const alignments = items.map(item => this.getGridItemAlignment(container, item));
+
+    // Columns first, then rows, since stretched text is only as tall as the width it wraps at
+    const columnSizes = this.sizeGridTracks(plan.columns, plan.columnGap, isShrinkToFit ? null : contentWidth,
+      items.map((item, index) => ({ start: plan.areas[index].column, span: plan.areas[index].columnSpan, size: item.node.width })));
+    const columnSpan = (start: number, span: number) => this.getSpanSize(columnSizes, plan.columnGap, start, span);
+    items.forEach((item, index) => {
+      if (alignments[index].horizontal === null) {
+        this.resizeGridItem(item.node, columnSpan(plan.areas[index].column, plan.areas[index].columnSpan), null);
+      }
+    });
+
+    const rowSizes = this.sizeGridTracks(plan.rows, plan.rowGap, hasHeight ? contentHeight : null,
+      items.map((item, index) => ({ start: plan.areas[index].row, span: plan.areas[index].rowSpan, size: item.node.height })));
+    const rowSpan = (start: number, span: number) => this.getSpanSize(rowSizes, plan.rowGap, start, span);
+
+    frame.layoutMode = 'VERTICAL';
+    frame.itemSpacing = plan.rowGap;
+    frame.primaryAxisSizingMode = hasHeight ? 'FIXED' : 'AUTO';
+    frame.counterAxisSizingMode = isShrinkToFit ? 'AUTO' : 'FIXED';
+
+    const placed: { [index: number]: boolean } = {};
+    rowSizes.forEach((height, row) => {
+      const line = this.createGridCell(columnSpan(0, columnSizes.length), height);
+      line.name = 'Row';
+      line.layoutMode = 'HORIZONTAL';
+      line.itemSpacing = plan.columnGap;
+      line.primaryAxisSizingMode = 'AUTO';
+      line.counterAxisSizingMode = 'FIXED';
+
+      let column = 0;
+      while (column < columnSizes.length) {
+        const index = this.findGridItem(plan, row, column);
+        if (index === -1) {
+          line.appendChild(this.createGridCell(columnSizes[column], height));
+          column++;
+          continue;
+        }
+
+        const area = plan.areas[index];
+        const end = area.column + area.columnSpan;
+        if (area.row === row && area.column === column && area.rowSpan === 1) {
+          line.appendChild(this.wrapGridItem(items[index].node, alignments[index], columnSpan(column, end - column), height));
+          placed[index] = true;
+        } else {
+          line.appendChild(this.createGridCell(columnSpan(column, end - column), height));
         }
+        column = end;
       }
-      
-      // Adjust frame height based on content
-      if (element.children.length > 0 && !element.styles.height) {
-        frame.resize(frame.width, Math.max(yOffset + 20, 100)); // Add bottom padding
+      frame.appendChild(line);
+    });
+
+    // Items spanning rows, and items CSS lets overlap, go over the rows at their cells
+    items.forEach((item, index) => {
+      if (placed[index]) return;
+      const area = plan.areas[index];
+      const cell = this.wrapGridItem(item.node, alignments[index],
+        columnSpan(area.column, area.columnSpan), rowSpan(area.row, area.rowSpan));
+      frame.appendChild(cell);
+      if ('layoutPositioning' in cell) cell.layoutPositioning = 'ABSOLUTE';
+      cell.x = frame.paddingLeft + columnSpan(0, area.column) + (area.column > 0 ? plan.columnGap : 0);
+      cell.y = frame.paddingTop + rowSpan(0, area.row) + (area.row > 0 ? plan.rowGap : 0);
+    });
+  }
+
+  /**
+   * Track sizes in pixels: fixed tracks as given, content-sized tracks as
+   * wide as their largest item, and `fr` tracks sharing what is left of
+   * the available size. Items spanning several tracks do not size them.
+   */
+  private sizeGridTracks(
+    tracks: GridTrack[],
+    gap: number,
+    available: number | null,
+    spans: { start: number; span: number; size: number }[]
+  ): number[] {
+    const sizes = tracks.map(track => (track.type === 'FIXED' ? track.value : track.min));
+    const canFlex = available !== null;
+    for (const span of spans) {
+      const track = tracks[span.start];
+      if (span.span === 1 && (track.type === 'HUG' || (track.type === 'FLEX' && !canFlex))) {
+        sizes[span.start] = Math.max(sizes[span.start], span.size);
       }
     }
-    
-    // Apply height after children are added
-    if (element.styles.height && defaultHeight !== 'auto') {
-      const height = this.styleProcessor.parseSize(element.styles.height);
-      if (height > 0) {
-        frame.resize(frame.width, height);
-      }
-    } else if (typeof defaultHeight === 'number') {
-      frame.resize(frame.width, defaultHeight);
+
+    if (available !== null) {
+      const flexible = tracks.filter(track => track.type === 'FLEX');
+      const fractions = flexible.reduce((sum, track) => sum + track.value, 0);
+      const used = sizes.reduce((sum, size, index) => sum + (tracks[index].type === 'FLEX' ? 0 : size), 0) +
+        gap * (tracks.length - 1);
+      const free = Math.max(0, available - used);
+      tracks.forEach((track, index) => {
+        if (track.type === 'FLEX') sizes[index] = Math.max(track.min, free * track.value / Math.max(fractions, 1));
+      });
     }
-    
-    return frame;
+    return sizes;
   }
 
-  async createTextNode(element: ParsedElement): Promise<TextNode> {
-    const text = figma.createText();
-    
-    // Get text content, fallback to tag name if empty
-    const textContent = element.textContent?.trim() || element.tagName.toUpperCase();
-    text.characters = textContent;
-    
-    // Set font size based on heading level with better defaults
-    let fontSize = 16;
-    switch (element.tagName) {
-      case 'h1': fontSize = 48; break;  // Larger for better hierarchy
-      case 'h2': fontSize = 36; break;
-      case 'h3': fontSize = 28; break;
-      case 'h4': fontSize = 24; break;
-      case 'h5': fontSize = 20; break;
-      case 'h6': fontSize = 18; break;
-      case 'p': fontSize = 16; break;
-      case 'span': fontSize = 14; break;
-      case 'small': fontSize = 12; break;
-      case 'strong': fontSize = 16; break;
-      case 'em': fontSize = 16; break;
+  private getSpanSize(sizes: number[], gap: number, start: number, span: number): number {
+    let size = 0;
+    for (let index = start; index < start + span; index++) {
+      size += sizes[index] || 0;
     }
-    
-    // Apply font size from styles if specified
-    if (element.styles['font-size']) {
-      const styleFontSize = this.styleProcessor.parseFontSize(element.styles['font-size']);
-      if (styleFontSize > 0) {
-        fontSize = styleFontSize;
+    return size + gap * Math.max(span - 1, 0);
+  }
+
+  // The first item covering a cell
+  private findGridItem(plan: GridPlan, row: number, column: number): number {
+    for (let index = 0; index < plan.areas.length; index++) {
+      const area = plan.areas[index];
+      if (area.row <= row && row < area.row + area.rowSpan && area.column <= column && column < area.column + area.columnSpan) {
+        return index;
       }
     }
-    
-    text.fontSize = fontSize;
-    
-    // Apply font weight with better mapping
-    let fontStyle = 'Regular';
-    if (element.styles['font-weight']) {
-      const weight = element.styles['font-weight'];
-      if (weight === 'bold' || weight === 'bolder' || parseInt(weight) >= 700) {
-        fontStyle = 'Bold';
-      } else if (weight === '500' || weight === 'medium') {
-        fontStyle = 'Medium';
-      } else if (parseInt(weight) >= 600) {
-        fontStyle = 'SemiBold';
+    return -1;
+  }
+
+  // A stretched item fills its cell; any other is aligned within a cell frame of the cell's size
+  private wrapGridItem(
+    node: SceneNode,
+    alignment: { horizontal: 'MIN' | 'CENTER' | 'MAX' | null; vertical: 'MIN' | 'CENTER' | 'MAX' | null },
+    width: number,
+    height: number
+  ): SceneNode {
+    if (alignment.vertical === null) {
+      this.resizeGridItem(node, null, height);
+    }
+    if (alignment.horizontal === null && alignment.vertical !== 'CENTER' && alignment.vertical !== 'MAX') {
+      return node;
+    }
+
+    const cell = this.createGridCell(width, height);
+    cell.layoutMode = 'HORIZONTAL';
+    cell.primaryAxisSizingMode = 'FIXED';
+    cell.counterAxisSizingMode = 'FIXED';
+    cell.primaryAxisAlignItems = alignment.horizontal || 'MIN';
+    cell.counterAxisAlignItems = alignment.vertical || 'MIN';
+    cell.appendChild(node);
+    return cell;
+  }
+
+  // Text keeps the height its lines need
+  private resizeGridItem(node: SceneNode, width: number | null, height: number | null): void {
+    if (node.type === 'TEXT') {
+      if (width === null) return;
+      node.resize(Math.max(width, 1), node.height);
+      node.textAutoResize = 'HEIGHT';
+    } else if ('resize' in node) {
+      node.resize(Math.max(width !== null ? width : node.width, 0.01), Math.max(height !== null ? height : node.height, 0.01));
+    }
+  }
+
+  private createGridCell(width: number, height: number): FrameNode {
+    const cell = figma.createFrame();
+    cell.name = 'Cell';
+    cell.fills = [];
+    cell.clipsContent = false;
+    cell.resize(Math.max(width, 0.01), Math.max(height, 0.01));
+    return cell;
+  }
+
+  /**
+   * justify-self/-items and align-self/-items within the cell; null where
+   * the item stretches, which it only does without a size of its own.
+   * Text keeps its height at the top of the cell.
+   */
+  private getGridItemAlignment(
+    container: ParsedElement,
+    item: FlowChild
+  ): { horizontal: 'MIN' | 'CENTER' | 'MAX' | null; vertical: 'MIN' | 'CENTER' | 'MAX' | null } {
+    const styles = item.element ? item.element.styles : {};
+    const box = item.element ? item.element.box : undefined;
+    const justify = styles['justify-self'] && styles['justify-self'] !== 'auto' ? styles['justify-self'] : container.styles['justify-items'];
+    const align = styles['align-self'] && styles['align-self'] !== 'auto' ? styles['align-self'] : container.styles['align-items'];
+
+    const horizontal = this.getCellAlignment(justify);
+    const vertical = this.getCellAlignment(align);
+    return {
+      horizontal: horizontal === null && box && box.width !== null ? 'MIN' : horizontal,
+      vertical: vertical === null && ((box && box.height !== null) || item.node.type === 'TEXT') ? 'MIN' : vertical
+    };
+  }
+
+  private getCellAlignment(value: string | undefined): 'MIN' | 'CENTER' | 'MAX' | null {
+    switch (value) {
+      case 'center':
+        return 'CENTER';
+      case 'end':
+      case 'flex-end':
+      case 'self-end':
+      case 'right':
+        return 'MAX';
+      case 'start':
+      case 'flex-start':
+      case 'self-start':
+      case 'left':
+      case 'baseline':
+      case 'first baseline':
+        return 'MIN';
+      default:
+        return null; // normal and stretch
+    }
+  }
+
+  /**
+   * Stacks the children of a block container with the vertical space the
+   * layout engine worked out between them. When the gaps are all the same
+   * and the children share a left edge, the frame becomes a vertical auto
+   * layout; otherwise the children are placed at fixed positions. A height
+   * that depends on content is the height of the stack, within the limits.
+   */
+  private layoutBlockChildren(frame: FrameNode, element: ParsedElement, children: FlowChild[], isShrinkToFit: boolean): void {
+    const box = element.box;
+    const minHeight = box ? box.minHeight : 0;
+    const maxHeight = box ? box.maxHeight : Infinity;
+    const hasHeight = !!box && box.height !== null;
+
+    // Hidden children take no space; auto layout skips them as well
+    const visible = children.filter(child => !child.element || child.element.styles.display !== 'none');
+    children.forEach(child => {
+      if (visible.indexOf(child) === -1) child.node.visible = false;
+    });
+
+    const placements = visible.map(child => this.getPlacement(child));
+    const gaps = placements.slice(1).map((placement, index) => placements[index].after + placement.before);
+    const isUniform = visible.length > 0 &&
+      gaps.every(gap => Math.abs(gap - gaps[0]) < 0.01) &&
+      placements.every(placement => Math.abs(placement.left - placements[0].left) < 0.01) &&
+      // Auto layout would drop the offsets of transformed children
+      visible.every(child => child.node.x === 0 && child.node.y === 0);
+
+    if (isUniform) {
+      frame.layoutMode = 'VERTICAL';
+      frame.itemSpacing = gaps.length > 0 ? gaps[0] : 0;
+      frame.paddingTop += placements[0].before;
+      frame.paddingBottom += placements[placements.length - 1].after;
+      frame.paddingLeft += placements[0].left;
+      frame.primaryAxisSizingMode = hasHeight ? 'FIXED' : 'AUTO';
+      frame.counterAxisSizingMode = isShrinkToFit ? 'AUTO' : 'FIXED';
+      if (!hasHeight && minHeight > 0) frame.minHeight = minHeight;
+      if (!hasHeight && maxHeight < Infinity) frame.maxHeight = maxHeight;
+
+      for (const child of children) {
+        frame.appendChild(child.node);
       }
+
+      // Text that spans the line fills it, so that it rewraps when the frame is resized
+      if (!isShrinkToFit) {
+        const lineWidth = frame.width - frame.paddingLeft - frame.paddingRight;
+        visible.forEach(child => {
+          if (child.node.type === 'TEXT' && child.node.textAutoResize === 'HEIGHT' && Math.abs(child.node.width - lineWidth) < 0.5) {
+            child.node.layoutSizingHorizontal = 'FILL';
+          }
+        });
+      }
+      return;
     }
-    
-    // Apply semantic styling
-    if (element.tagName.startsWith('h')) {
-      fontStyle = 'Bold'; // All headings are bold
-    } else if (element.tagName === 'strong' || element.tagName === 'b') {
-      fontStyle = 'Bold';
-    } else if (element.tagName === 'em' || element.tagName === 'i') {
-      // Note: Figma doesn't have italic in Inter, so we'll use Medium
-      fontStyle = 'Medium';
+
+    let y = frame.paddingTop;
+    let right = 0;
+    visible.forEach((child, index) => {
+      const placement = placements[index];
+      y += placement.before;
+      child.node.x += frame.paddingLeft + placement.left;
+      child.node.y += y;
+      y += child.node.height + placement.after;
+      right = Math.max(right, placement.left + child.node.width);
+    });
+    for (const child of children) {
+      frame.appendChild(child.node);
     }
-    
+
+    const width = isShrinkToFit && visible.length > 0 ? Math.min(frame.width, right + frame.paddingLeft + frame.paddingRight) : frame.width;
+    const height = hasHeight ? frame.height : Math.min(Math.max(y + frame.paddingBottom, minHeight), maxHeight);
+    frame.resize(Math.max(width, 0.01), Math.max(height, 0.01));
+  }
+
+  // Where a child goes in block flow: the space above and below it and its offset from the content's left edge
+  private getPlacement(child: FlowChild): { before: number; after: number; left: number } {
+    const box = child.element ? child.element.box : undefined;
+    if (!box) return { before: 0, after: 0, left: 0 };
+
+    const placement = { before: box.spaceBefore, after: box.spaceAfter, left: box.margin.left };
+    // A text node stands for the element's content box
+    if (child.node.type === 'TEXT') {
+      placement.before += box.border.top + box.padding.top;
+      placement.after += box.padding.bottom + box.border.bottom;
+      placement.left += box.border.left + box.padding.left;
+    }
+    return placement;
+  }
+
+  // Fixed boxes belong to the viewport, which the top-level frame stands in for
+  private isContainingBlock(element: ParsedElement, positioned: ParsedElement): boolean {
+    const position = element.styles.position;
+    return positioned.styles.position !== 'fixed' && !!position && position !== 'static';
+  }
+
+  /**
+   * Absolutely positioned children leave the flow. Their insets are resolved
+   * against the padding box of the containing block's frame; an `auto` inset
+   * on both sides keeps the static position, where the box would have been
+   * in its parent's flow.
+   */
+  private placePositionedChild(frame: FrameNode, container: ParsedElement, child: PositionedChild): void {
+    const { node, element } = child;
+    // Any CSS transform has already offset the node from (0, 0)
+    const offsetX = node.x;
+    const offsetY = node.y;
+    const staticPosition = this.getStaticPosition(child);
+    const parentOffset = this.getOffsetWithin(child.parent, frame);
+
+    frame.appendChild(node);
+    if (frame.layoutMode !== 'NONE' && 'layoutPositioning' in node) {
+      node.layoutPositioning = 'ABSOLUTE';
+    }
+
+    const border = container.box ? container.box.border : { top: 0, right: 0, bottom: 0, left: 0 };
+    const margin = element.box ? element.box.margin : { top: 0, right: 0, bottom: 0, left: 0 };
+    const width = frame.width - border.left - border.right;
+    const height = frame.height - border.top - border.bottom;
+    const left = this.parseInset(element.styles.left, width);
+    const right = this.parseInset(element.styles.right, width);
+    const top = this.parseInset(element.styles.top, height);
+    const bottom = this.parseInset(element.styles.bottom, height);
+    const x = left !== null ? border.left + left + margin.left
+      : right !== null ? border.left + width - right - margin.right - node.width
+      : parentOffset.x + staticPosition.x + margin.left;
+    const y = top !== null ? border.top + top + margin.top
+      : bottom !== null ? border.top + height - bottom - margin.bottom - node.height
+      : parentOffset.y + staticPosition.y + margin.top;
+
+    node.x = x + offsetX;
+    node.y = y + offsetY;
+  }
+
+  // Percentages left for a content-sized containing block are resolved against the frame's final size
+  private parseInset(value: string | undefined, basis: number): number | null {
+    if (!value || value === 'auto') return null;
+    const trimmed = value.trim();
+    return /%$/.test(trimmed) ? parseFloat(trimmed) / 100 * basis : this.styleProcessor.parseSize(trimmed);
+  }
+
+  // In block flow the box follows the child before it; a flex or grid container puts it at the start of its content box
+  private getStaticPosition(child: PositionedChild): { x: number; y: number } {
+    const box = child.parentElement.box;
+    const x = box ? box.border.left + box.padding.left : child.parent.paddingLeft;
+    const y = box ? box.border.top + box.padding.top : child.parent.paddingTop;
+    const display = child.parentElement.styles.display || '';
+    const isBlockFlow = !/flex|grid/.test(display);
+    const previous = child.previous;
+    if (isBlockFlow && previous && previous.parent === child.parent && previous.visible) {
+      return { x, y: previous.y + previous.height };
+    }
+    return { x, y };
+  }
+
+  // Where a frame sits inside one of its ancestors, summed over the frames in between
+  private getOffsetWithin(node: FrameNode, ancestor: FrameNode): { x: number; y: number } {
+    let x = 0;
+    let y = 0;
+    let current: BaseNode | null = node;
+    while (current && current !== ancestor && 'x' in current) {
+      x += current.x;
+      y += current.y;
+      current = current.parent;
+    }
+    return { x, y };
+  }
+
+  /**
+   * Creates the Figma nodes for an element's content. Runs of text and inline
+   * elements between block children become one anonymous text node each; in
+   * flex and grid containers every child element is its own item. Absolutely
+   * positioned children are returned apart since they are not in the flow,
+   * along with those that static descendants passed up.
+   */
+  private async createChildNodes(
+    frame: FrameNode,
+    element: ParsedElement,
+    isLayoutContainer: boolean,
+    available: AvailableWidth
+  ): Promise<{ nodes: FlowChild[]; positioned: PositionedChild[] }> {
+    const nodes: FlowChild[] = [];
+    const positioned: PositionedChild[] = [];
+    const outerPositioned = this.pendingPositioned;
+    this.pendingPositioned = positioned;
+    const contentNodes = element.childNodes || element.children;
+    let inlineNodes: ParsedNode[] = [];
+
+    const flushInline = async () => {
+      if (inlineNodes.some(node => this.getNodeText(node).trim())) {
+        nodes.push({ node: await this.createTextNode(element, inlineNodes, available), element: null });
+      }
+      inlineNodes = [];
+    };
+
     try {
-      text.fontName = { family: "Inter", style: fontStyle };
-    } catch (error) {
-      // Fallback to Regular if the style doesn't exist
-      text.fontName = { family: "Inter", style: "Regular" };
+      for (const node of contentNodes) {
+        if (isTextNodeData(node) || (!isLayoutContainer && this.isInlineTextContent([node]))) {
+          inlineNodes.push(node);
+          continue;
+        }
+
+        await flushInline();
+        const childNode = await this.createFigmaNodeFromElement(node, available);
+        if (childNode && (node.styles.position === 'absolute' || node.styles.position === 'fixed')) {
+          const previous = nodes.length > 0 ? nodes[nodes.length - 1].node : null;
+          positioned.push({ node: childNode, element: node, parent: frame, parentElement: element, previous });
+        } else if (childNode) {
+          nodes.push({ node: childNode, element: node });
+        }
+      }
+      await flushInline();
+    } finally {
+      this.pendingPositioned = outerPositioned;
     }
+
+    return { nodes, positioned };
+  }
+
+  private isTextElement(element: ParsedElement): boolean {
+    const display = element.styles.display;
+    // -webkit-box is how -webkit-line-clamp is used on a block of text
+    if (display && display !== 'inline' && display !== 'block' && display !== '-webkit-box') {
+      return false;
+    }
+
+    const isTextTag = element.tagName === ANONYMOUS_TEXT || TEXT_BLOCK_ELEMENTS.indexOf(element.tagName) !== -1 ||
+      INLINE_TEXT_ELEMENTS.indexOf(element.tagName) !== -1;
+    return isTextTag && this.isInlineTextContent(element.childNodes || []);
+  }
+
+  private isInlineTextContent(nodes: ParsedNode[]): boolean {
+    return nodes.every(node => {
+      if (isTextNodeData(node)) return true;
+      return isInlineDisplay(node) && this.isInlineTextContent(node.childNodes || []);
+    });
+  }
+
+  private getNodeText(node: ParsedNode): string {
+    return isTextNodeData(node) ? node.text : node.textContent || '';
+  }
+
+  // Without an available width the text keeps to one line per forced break
+  async createTextNode(
+    element: ParsedElement,
+    nodes: ParsedNode[] = element.childNodes || [],
+    available: AvailableWidth | null = null
+  ): Promise<TextNode> {
+    const text = figma.createText();
+    
+    // Flatten inline content into styled runs, starting from the element's own; fall back to the tag name if empty
+    const runs = this.collectTextRuns(nodes, this.resolveRunStyle(element, {}), []);
+    const textContent = runs.map(run => run.text).join('') || element.textContent?.trim() || element.tagName.toUpperCase();
+    text.characters = textContent;
+    
+    // The computed font size is in px; headings get theirs from the default styles
+    text.fontSize = this.styleProcessor.parseFontSize(element.styles['font-size']);
+    
+    // Apply font family, weight and style; headings, strong/b and em/i get theirs from the default styles
+    const fontRequest = this.getFontRequest(element.styles);
+    text.fontName = this.fontResolver.resolve(fontRequest);
     
     // Apply text color with better defaults
-    let textColor = { r: 0.11, g: 0.11, b: 0.11 }; // Default dark gray
+    let textColor: RGBA = { r: 0.11, g: 0.11, b: 0.11, a: 1 }; // Default dark gray
     
     if (element.styles.color) {
       const color = this.styleProcessor.parseColor(element.styles.color);
@@ -289,8 +1075,16 @@ export class NodeFactory {
       }
     }
     
-    text.fills = [{ type: 'SOLID', color: textColor }];
-    
+    text.fills = [this.styleProcessor.createSolidPaint(textColor)];
+
+    // Apply text shadow
+    if (element.styles['text-shadow']) {
+      const shadows = this.styleProcessor.parseTextShadow(element.styles['text-shadow'], element.styles.color);
+      if (shadows.length > 0) {
+        text.effects = shadows;
+      }
+    }
+
     // Apply text alignment if specified
     if (element.styles['text-align']) {
       switch (element.styles['text-align']) {
@@ -308,26 +1102,261 @@ export class NodeFactory {
       }
     }
     
-    // Set line height if specified
-    if (element.styles['line-height']) {
-      const lineHeight = parseFloat(element.styles['line-height']);
-      if (!isNaN(lineHeight)) {
-        if (lineHeight > 3) {
-          // Assume pixel value, convert to percentage
-          text.lineHeight = { value: (lineHeight / fontSize) * 100, unit: 'PERCENT' };
-        } else {
-          // Assume multiplier
-          text.lineHeight = { value: lineHeight * 100, unit: 'PERCENT' };
-        }
-      }
-    } else {
-      // Set default line height for better readability
-      text.lineHeight = { value: 140, unit: 'PERCENT' };
+    // A computed line height is px or a unitless multiplier; `normal` keeps Figma's auto line height
+    const lineHeight = (element.styles['line-height'] || 'normal').trim();
+    const lineHeightValue = parseFloat(lineHeight);
+    if (!isNaN(lineHeightValue)) {
+      text.lineHeight = /px$/i.test(lineHeight)
+        ? { value: lineHeightValue, unit: 'PIXELS' }
+        : { value: lineHeightValue * 100, unit: 'PERCENT' };
+    }
+
+    // Paragraph properties belong to the element only when the text is all of its content
+    const isWholeElement = nodes.length === (element.childNodes || element.children).length;
+    if (isWholeElement) {
+      this.applyParagraphStyles(text, element);
+    }
+
+    this.applyTextRuns(text, runs, fontRequest);
+
+    if (available) {
+      this.applyTextWrapping(text, element, isWholeElement, available);
     }
     
     return text;
   }
 
+  /**
+   * Gives wrapping text a fixed width and auto height. The width is the
+   * content width of the element's box, or the available width within the
+   * box's limits; a flex item whose content fits keeps its auto width.
+   * Since Figma breaks words that do not fit, text whose words may not be
+   * broken is kept at least as wide as its longest word, as CSS lets that
+   * word overflow.
+   */
+  private applyTextWrapping(text: TextNode, element: ParsedElement, isWholeElement: boolean, available: AvailableWidth): void {
+    const styles = element.styles;
+    const whiteSpace = styles['white-space'] || 'normal';
+    const noWrap = whiteSpace === 'nowrap' || whiteSpace === 'pre' || styles['text-wrap-mode'] === 'nowrap';
+    // An ellipsis needs a width to truncate at
+    if (noWrap && text.textTruncation !== 'ENDING') return;
+
+    // The text node stands for the content box of the element it is all of
+    let width = available.width;
+    const box = isWholeElement ? element.box : undefined;
+    const isSized = !!box && box.width !== null;
+    if (box) {
+      const horizontal = box.padding.left + box.padding.right + box.border.left + box.border.right;
+      const outer = box.width !== null
+        ? box.width
+        : Math.min(Math.max(available.width - box.margin.left - box.margin.right, box.minWidth), box.maxWidth);
+      width = outer - horizontal;
+    }
+
+    // A flex item that fits keeps hugging its content
+    const naturalWidth = text.width;
+    if (available.shrinkToFit && !isSized && naturalWidth <= width) return;
+
+    const overflowWrap = styles['overflow-wrap'] || styles['word-wrap'] || 'normal';
+    const wordBreak = styles['word-break'] || 'normal';
+    if (overflowWrap === 'normal' && wordBreak !== 'break-all' && wordBreak !== 'break-word') {
+      width = Math.max(width, this.estimateLongestWord(text.characters, naturalWidth));
+    }
+
+    text.resize(Math.max(width, 1), text.height);
+    text.textAutoResize = 'HEIGHT';
+  }
+
+  // The width of the longest word, at the average character width of the longest line
+  private estimateLongestWord(characters: string, naturalWidth: number): number {
+    const longest = (parts: string[]) => parts.reduce((length, part) => Math.max(length, part.length), 0);
+    const lineLength = longest(characters.split(LINE_SEPARATOR));
+    return lineLength > 0 ? naturalWidth * longest(characters.split(/\s+/)) / lineLength : 0;
+  }
+
+  // text-indent and truncation of a text block; margins are left to the layout pass
+  private applyParagraphStyles(text: TextNode, element: ParsedElement): void {
+    const styles = element.styles;
+
+    // Figma indents the first line of each paragraph but has no hanging indent
+    const indent = this.styleProcessor.parseSize(styles['text-indent'] || '0');
+    if (indent > 0) {
+      text.paragraphIndent = indent;
+    } else if (indent < 0) {
+      this.styleProcessor.warn('Figma 不支持负的 text-indent（悬挂缩进），已忽略');
+    }
+
+    // -webkit-line-clamp, or text-overflow: ellipsis on a single clipped line
+    const lineClamp = parseInt(styles['-webkit-line-clamp'] || styles['line-clamp'] || '', 10);
+    const overflow = styles['overflow-x'] || 'visible';
+    const whiteSpace = styles['white-space'] || 'normal';
+    const isSingleLine = whiteSpace === 'nowrap' || whiteSpace === 'pre' || styles['text-wrap-mode'] === 'nowrap';
+    if (lineClamp > 0) {
+      text.textTruncation = 'ENDING';
+      text.maxLines = lineClamp;
+    } else if (styles['text-overflow'] === 'ellipsis' && overflow !== 'visible' && isSingleLine) {
+      text.textTruncation = 'ENDING';
+      text.maxLines = 1;
+    }
+  }
+
+  private collectTextRuns(nodes: ParsedNode[], style: TextRunStyle, runs: TextRun[]): TextRun[] {
+    for (const node of nodes) {
+      if (isTextNodeData(node)) {
+        runs.push(this.createTextRun(node.text, style));
+      } else if (node.tagName === 'br') {
+        runs.push({ text: LINE_SEPARATOR, style });
+      } else {
+        const childNodes = node.childNodes || [{ type: 'text' as const, text: node.textContent || '' }];
+        this.collectTextRuns(childNodes, this.resolveRunStyle(node, style), runs);
+      }
+    }
+    return runs;
+  }
+
+  private createTextRun(text: string, style: TextRunStyle): TextRun {
+    text = text.replace(/\n/g, LINE_SEPARATOR);
+    if (!style.baselineShift) return { text, style };
+
+    // Super- and subscript characters are already small, so they take the surrounding font size
+    const table = style.baselineShift === 'super' ? SUPERSCRIPTS : SUBSCRIPTS;
+    const chars = text.split('');
+    if (text.trim() && chars.every(char => table[char] !== undefined)) {
+      const shifted: TextRunStyle = Object.assign({}, style, { fontSize: style.baselineFontSize });
+      return { text: chars.map(char => table[char]).join(''), style: shifted };
+    }
+
+    this.styleProcessor.warn('Figma 不支持基线偏移，无法用上标/下标字符表示的 vertical-align 文本仅缩小了字号');
+    return { text, style };
+  }
+
+  private resolveRunStyle(element: ParsedElement, parentStyle: TextRunStyle): TextRunStyle {
+    const style: TextRunStyle = Object.assign({}, parentStyle);
+
+    // Default presentation of semantic inline elements
+    switch (element.tagName) {
+      case 'strong': case 'b':
+        style.fontWeight = 700;
+        break;
+      case 'em': case 'i': case 'cite': case 'var': case 'dfn':
+        style.italic = true;
+        break;
+      case 'u': case 'ins':
+        style.underline = true;
+        break;
+      case 's': case 'del': case 'strike':
+        style.strikethrough = true;
+        break;
+      case 'a':
+        if (element.attributes.href) {
+          style.href = element.attributes.href;
+          style.underline = true;
+          style.color = LINK_COLOR;
+        }
+        break;
+    }
+
+    const styles = element.styles;
+    if (styles['font-family']) {
+      style.fontFamily = styles['font-family'];
+    }
+    if (styles['font-weight']) {
+      style.fontWeight = this.fontResolver.parseWeight(styles['font-weight'], parentStyle.fontWeight);
+    }
+    if (styles['font-style']) {
+      style.italic = this.fontResolver.isItalic(styles['font-style']);
+    }
+    if (styles.color) {
+      const color = this.styleProcessor.parseColor(styles.color);
+      if (color) style.color = color;
+    }
+    if (styles['font-size']) {
+      style.fontSize = this.styleProcessor.parseFontSize(styles['font-size']);
+    }
+    if (styles['letter-spacing']) {
+      const letterSpacing = this.parseTextLength(styles['letter-spacing']);
+      if (letterSpacing) style.letterSpacing = letterSpacing;
+    }
+    if (styles['text-transform'] && TEXT_CASES[styles['text-transform']]) {
+      style.textCase = TEXT_CASES[styles['text-transform']];
+    }
+
+    const decoration = styles['text-decoration-line'] || styles['text-decoration'];
+    if (decoration) {
+      style.underline = decoration.indexOf('underline') !== -1;
+      style.strikethrough = decoration.indexOf('line-through') !== -1;
+      // The decoration keeps the color of the element that draws it, also under differently colored descendants
+      const color = this.styleProcessor.parseColor(styles['text-decoration-color'] || 'currentcolor', styles.color);
+      style.decorationColor = color || undefined;
+      style.decorationStyle = DECORATION_STYLES[styles['text-decoration-style'] || 'solid'];
+      style.decorationThickness = this.parseTextLength(styles['text-decoration-thickness'] || 'auto') || { unit: 'AUTO' };
+    }
+
+    // vertical-align is not inherited, but descendants move with the raised or lowered box
+    const verticalAlign = styles['vertical-align'];
+    if (verticalAlign && isInlineDisplay(element)) {
+      const offset = parseFloat(verticalAlign);
+      const shift = verticalAlign === 'super' || offset > 0 ? 'super' : verticalAlign === 'sub' || offset < 0 ? 'sub' : null;
+      if (shift) {
+        style.baselineShift = shift;
+        style.baselineFontSize = parentStyle.fontSize;
+      }
+    }
+
+    return style;
+  }
+
+  // letter-spacing and decoration thickness: lengths arrive in px, percentages refer to the font size
+  private parseTextLength(value: string): LetterSpacing | null {
+    if (value === 'normal') return { value: 0, unit: 'PIXELS' };
+    const match = /^(-?(?:\d+\.?\d*|\.\d+))(px|%)$/.exec(value.trim());
+    if (!match) return null;
+    return { value: parseFloat(match[1]), unit: match[2] === '%' ? 'PERCENT' : 'PIXELS' };
+  }
+
+  // Applies per-range formatting on top of the node-wide text styles
+  private applyTextRuns(text: TextNode, runs: TextRun[], baseFont: FontRequest): void {
+    let start = 0;
+    for (const run of runs) {
+      const end = start + run.text.length;
+      if (end > start) {
+        const style = run.style;
+
+        if (style.fontFamily !== undefined || style.fontWeight !== undefined || style.italic !== undefined) {
+          text.setRangeFontName(start, end, this.fontResolver.resolve(this.getRunFontRequest(style, baseFont)));
+        }
+        if (style.fontSize) {
+          text.setRangeFontSize(start, end, style.fontSize);
+        }
+        if (style.color) {
+          text.setRangeFills(start, end, [this.styleProcessor.createSolidPaint(style.color)]);
+        }
+        if (style.letterSpacing) {
+          text.setRangeLetterSpacing(start, end, style.letterSpacing);
+        }
+        if (style.textCase) {
+          text.setRangeTextCase(start, end, style.textCase);
+        }
+        if (style.underline || style.strikethrough) {
+          text.setRangeTextDecoration(start, end, style.underline ? 'UNDERLINE' : 'STRIKETHROUGH');
+          if (style.decorationStyle) {
+            text.setRangeTextDecorationStyle(start, end, style.decorationStyle);
+          }
+          if (style.decorationColor) {
+            text.setRangeTextDecorationColor(start, end, { value: this.styleProcessor.createSolidPaint(style.decorationColor) });
+          }
+          if (style.decorationThickness) {
+            text.setRangeTextDecorationThickness(start, end, style.decorationThickness);
+          }
+        }
+        if (style.href) {
+          text.setRangeHyperlink(start, end, { type: 'URL', value: style.href });
+        }
+      }
+      start = end;
+    }
+  }
+
   async createButtonNode(element: ParsedElement): Promise<FrameNode> {
     const button = figma.createFrame();
     button.name = "Button";
@@ -336,29 +1365,27 @@ export class NodeFactory {
     button.resize(120, 40);
 
     // Apply styling
-    this.styleProcessor.applyBasicStyles(button, element);
+    await this.styleProcessor.applyBasicStyles(button, element);
 
-    // Set default button styling if not specified
+    // Without a background of its own the button gets the browser's button face, which its text color reads on
     if (!element.styles['background-color']) {
-      button.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#007AFF')! }];
+      button.fills = [this.styleProcessor.createSolidPaint(this.styleProcessor.parseColor('#EFEFEF')!)];
     }
 
-    if (!element.styles['border-radius']) {
+    if (!element.styles['border-top-left-radius']) {
       button.cornerRadius = 8;
     }
 
-    // Add button text
-    const text = figma.createText();
-    text.characters = element.textContent || 'Button';
-    text.fontSize = 16;
-    text.fontName = { family: "Inter", style: "Medium" };
-    text.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#FFFFFF')! }];
-
-    // Center text in button
-    text.x = (button.width - text.width) / 2;
-    text.y = (button.height - text.height) / 2;
-
-    button.appendChild(text);
+    // The label is the button's content as styled text, centered; sizes that depend on it hug it
+    const label = await this.createTextNode(element);
+    label.name = 'Label';
+    const isSized = (size: string | undefined) => !!size && size !== 'auto';
+    button.layoutMode = 'HORIZONTAL';
+    button.primaryAxisAlignItems = 'CENTER';
+    button.counterAxisAlignItems = 'CENTER';
+    button.primaryAxisSizingMode = isSized(element.styles.width) ? 'FIXED' : 'AUTO';
+    button.counterAxisSizingMode = isSized(element.styles.height) ? 'FIXED' : 'AUTO';
+    button.appendChild(label);
     return button;
   }
 
@@ -371,27 +1398,29 @@ export class NodeFactory {
     input.resize(280, height);
 
     // Apply styling
-    this.styleProcessor.applyBasicStyles(input, element);
+    await this.styleProcessor.applyBasicStyles(input, element);
 
     // Set default input styling if not specified
     if (!element.styles['background-color']) {
-      input.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#F2F2F7')! }];
+      input.fills = [this.styleProcessor.createSolidPaint(this.styleProcessor.parseColor('#F2F2F7')!)];
     }
 
-    if (!element.styles['border-radius']) {
+    if (!element.styles['border-top-left-radius']) {
       input.cornerRadius = 8;
     }
 
-    // Add border
-    input.strokes = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#D1D1D6')! }];
-    input.strokeWeight = 1;
+    // Add border if not specified
+    if (!element.styles['border-top-style']) {
+      input.strokes = [this.styleProcessor.createSolidPaint(this.styleProcessor.parseColor('#D1D1D6')!)];
+      input.strokeWeight = 1;
+    }
 
     // Add placeholder text
     const placeholder = figma.createText();
     const placeholderText = element.attributes.placeholder || element.textContent || 'Enter text...';
     placeholder.characters = placeholderText;
     placeholder.fontSize = 16;
-    placeholder.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#8E8E93')! }];
+    placeholder.fills = [this.styleProcessor.createSolidPaint(this.styleProcessor.parseColor('#8E8E93')!)];
     placeholder.x = 12;
     placeholder.y = element.tagName === 'textarea' ? 12 : (input.height - placeholder.height) / 2;
 
@@ -399,92 +1428,171 @@ export class NodeFactory {
     return input;
   }
 
-  async createImageNode(element: ParsedElement): Promise<RectangleNode> {
-    const rect = figma.createRectangle();
-    rect.name = "Image Placeholder";
+  async createImageNode(element: ParsedElement): Promise<RectangleNode | FrameNode> {
+    const src = (element.attributes.src || '').trim();
 
-    // Set default image size
-    let width = 200;
-    let height = 150;
+    // SVG sources become vectors like inline SVG
+    const svgMarkup = src ? this.imageStore.getSvgMarkup(src) : null;
+    const svgNode = svgMarkup ? await this.createNodeFromSvg(svgMarkup, element) : null;
+    if (svgNode) return svgNode;
 
-    // Try to get dimensions from attributes
-    if (element.attributes.width) {
-      width = parseInt(element.attributes.width) || width;
-    }
-    if (element.attributes.height) {
-      height = parseInt(element.attributes.height) || height;
-    }
+    const rect = figma.createRectangle();
+    const image = src ? this.styleProcessor.resolveImage(src) : null;
+    const natural = image ? await this.imageStore.getSize(image) : null;
 
-    rect.resize(width, height);
+    const size = this.getImageSize(element, natural);
+    rect.resize(size.width, size.height);
 
     // Apply styling
-    this.styleProcessor.applyBasicStyles(rect, element);
+    await this.styleProcessor.applyBasicStyles(rect, element);
 
-    // Set placeholder styling
-    rect.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#E5E5EA')! }];
-    rect.strokes = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#D1D1D6')! }];
-    rect.strokeWeight = 1;
+    if (image) {
+      rect.name = element.attributes.alt || 'Image';
+      // The image is drawn over the element's own background
+      const background = await this.styleProcessor.createBackgroundPaints(element, rect.width, rect.height);
+      rect.fills = background.concat(await this.styleProcessor.createObjectFitPaint(image, element, rect.width, rect.height));
+      return rect;
+    }
+
+    // Set placeholder styling, naming the source that could not be imported
+    rect.name = src ? `Image Placeholder: ${src.indexOf('data:') === 0 ? src.slice(0, 30) + '…' : src}` : 'Image Placeholder';
+    rect.fills = [this.styleProcessor.createSolidPaint(this.styleProcessor.parseColor('#E5E5EA')!)];
+    if (rect.strokes.length === 0) {
+      rect.strokes = [this.styleProcessor.createSolidPaint(this.styleProcessor.parseColor('#D1D1D6')!)];
+      rect.strokeWeight = 1;
+    }
 
     return rect;
   }
 
-  async createListNode(element: ParsedElement): Promise<FrameNode> {
-    const list = figma.createFrame();
-    list.name = element.tagName === 'ol' ? 'Ordered List' : 'Unordered List';
+  async createSvgNode(element: ParsedElement): Promise<FrameNode> {
+    const node = await this.createNodeFromSvg(this.svgSerializer.serialize(element), element);
+    if (!node) {
+      // Markup Figma cannot import still gets the element's box
+      return await this.createContainerNode(element);
+    }
+    // Hidden sprite sheets only hold definitions for <use>
+    if (element.styles.display === 'none') {
+      node.visible = false;
+    }
+    return node;
+  }
 
-    // Apply styling
-    this.styleProcessor.applyBasicStyles(list, element);
-
-    // Set default list styling
-    list.resize(300, 100);
-    list.fills = [];
-
-    // Create list items
-    let yOffset = 0;
-    for (let i = 0; i < element.children.length; i++) {
-      const child = element.children[i];
-      const listItem = await this.createListItemNode(child, element.tagName === 'ol' ? i + 1 : undefined);
-      if (listItem) {
-        listItem.y = yOffset;
-        list.appendChild(listItem);
-        yOffset += listItem.height + 8;
-      }
+  /**
+   * Imports SVG markup as vectors, then scales the drawing into the CSS box.
+   * As with the default preserveAspectRatio, the aspect ratio is kept and
+   * the drawing is centered. null when Figma cannot parse the markup.
+   */
+  private async createNodeFromSvg(markup: string, element: ParsedElement): Promise<FrameNode | null> {
+    let frame: FrameNode;
+    try {
+      frame = figma.createNodeFromSvg(markup);
+    } catch (error) {
+      console.warn('SVG导入失败:', error);
+      this.styleProcessor.warn(`无法导入的SVG（<${element.tagName}>），已用占位图层代替`);
+      return null;
     }
+    frame.name = element.attributes['aria-label'] || element.attributes.alt || 'SVG';
 
-    // Adjust list height
-    if (yOffset > 0) {
-      list.resize(list.width, yOffset);
+    const size = this.getImageSize(element, { width: frame.width, height: frame.height });
+    const scale = Math.min(size.width / frame.width, size.height / frame.height);
+    if (isFinite(scale) && scale > 0 && scale !== 1) {
+      frame.rescale(scale);
+    }
+    const dx = (size.width - frame.width) / 2;
+    const dy = (size.height - frame.height) / 2;
+    if (dx !== 0 || dy !== 0) {
+      frame.resize(size.width, size.height);
+      for (const child of frame.children) {
+        child.x += dx;
+        child.y += dy;
+      }
     }
 
-    return list;
+    await this.styleProcessor.applyBasicStyles(frame, element);
+    return frame;
   }
 
-  async createListItemNode(element: ParsedElement, index?: number): Promise<FrameNode> {
-    const listItem = figma.createFrame();
-    listItem.name = "List Item";
-    listItem.resize(280, 24);
-    listItem.fills = [];
+  /**
+   * The CSS width and height, else the width and height attributes. A side
+   * left open follows `aspect-ratio` or the image's own ratio, and without
+   * either the intrinsic size; a missing image falls back to 200 × 150.
+   */
+  private getImageSize(element: ParsedElement, natural: ImageSize | null): ImageSize {
+    const getSide = (side: 'width' | 'height'): number | null => {
+      const style = element.styles[side];
+      const size = style && style !== 'auto' ? this.styleProcessor.parseSize(style) : 0;
+      const attribute = parseInt(element.attributes[side], 10);
+      return size > 0 ? size : attribute > 0 ? attribute : null;
+    };
+    const width = getSide('width');
+    const height = getSide('height');
+    const ratio = this.getAspectRatio(element.styles['aspect-ratio'], natural);
 
-    // Create bullet or number
-    const bullet = figma.createText();
-    bullet.characters = index ? `${index}.` : '•';
-    bullet.fontSize = 16;
-    bullet.fontName = { family: "Inter", style: "Regular" };
-    bullet.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#1C1C1E')! }];
-    bullet.x = 0;
-    bullet.y = 0;
+    if (width !== null && height !== null) return { width, height };
+    if (width !== null) return { width, height: ratio ? width / ratio : 150 };
+    if (height !== null) return { width: ratio ? height * ratio : 200, height };
+    if (natural) return { width: natural.width, height: ratio ? natural.width / ratio : natural.height };
+    return { width: 200, height: ratio ? 200 / ratio : 150 };
+  }
 
-    // Create text content
-    const text = figma.createText();
-    text.characters = element.textContent || 'List item';
-    text.fontSize = 16;
-    text.fontName = { family: "Inter", style: "Regular" };
-    text.fills = [{ type: 'SOLID', color: this.styleProcessor.parseColor('#1C1C1E')! }];
-    text.x = 20;
-    text.y = 0;
-
-    listItem.appendChild(bullet);
-    listItem.appendChild(text);
+  // aspect-ratio: auto || <ratio>; `auto` prefers the image's own ratio
+  private getAspectRatio(value: string | undefined, natural: ImageSize | null): number | null {
+    const naturalRatio = natural && natural.height > 0 ? natural.width / natural.height : null;
+    const match = /(\d*\.?\d+)\s*(?:\/\s*(\d*\.?\d+))?/.exec(value || '');
+    if (!match || (naturalRatio !== null && /auto/i.test(value || ''))) return naturalRatio;
+
+    const ratio = parseFloat(match[1]) / (match[2] !== undefined ? parseFloat(match[2]) : 1);
+    return ratio > 0 && isFinite(ratio) ? ratio : naturalRatio;
+  }
+
+  // A list is a block container; it opens the counter its items number themselves from
+  async createListNode(element: ParsedElement, available: AvailableWidth): Promise<FrameNode> {
+    const isOrdered = element.tagName === 'ol';
+    const start = parseInt(element.attributes.start || '', 10);
+    this.listCounters.push({ count: isOrdered && !isNaN(start) ? start - 1 : 0, isOrdered });
+    try {
+      const list = await this.createContainerNode(element, available);
+      list.name = isOrdered ? 'Ordered List' : 'Unordered List';
+      return list;
+    } finally {
+      this.listCounters.pop();
+    }
+  }
+
+  // The item's content laid out as a block, with its marker hanging to the left of it
+  async createListItemNode(element: ParsedElement, available: AvailableWidth): Promise<FrameNode> {
+    const counter = this.listCounters.length > 0 ? this.listCounters[this.listCounters.length - 1] : null;
+    if (counter) counter.count++;
+
+    const listItem = await this.createContainerNode(element, available);
+    listItem.name = 'List Item';
+
+    const styles = element.styles;
+    const type = styles['list-style-type'] || (counter && counter.isOrdered ? 'decimal' : 'disc');
+    if ((styles.display && styles.display !== 'list-item') || type === 'none') {
+      return listItem;
+    }
+    if (styles['list-style-position'] === 'inside') {
+      this.styleProcessor.warn('list-style-position: inside 无法表示，列表标记已画在项目外侧');
+    }
+
+    const marker = figma.createText();
+    marker.name = 'Marker';
+    marker.fontName = this.fontResolver.resolve(this.getFontRequest(styles));
+    const label = BULLETS[type] || `${counter ? counter.count : 1}.`;
+    marker.characters = `${label} `;
+    marker.fontSize = this.styleProcessor.parseFontSize(styles['font-size']);
+    const color = this.styleProcessor.parseColor(styles.color || '#000000');
+    if (color) marker.fills = [this.styleProcessor.createSolidPaint(color)];
+
+    // The marker sits in the list's padding, in line with the item's first line
+    const first = listItem.children.length > 0 ? listItem.children[0] : null;
+    listItem.appendChild(marker);
+    if (listItem.layoutMode !== 'NONE') marker.layoutPositioning = 'ABSOLUTE';
+    marker.x = -marker.width;
+    marker.y = first ? first.y : listItem.paddingTop;
+    listItem.clipsContent = false;
 
     return listItem;
   }
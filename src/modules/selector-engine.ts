@@ -0,0 +1,604 @@
+import { SimpleElement } from '../types';
+
+type Specificity = [number, number, number];
+
+interface AttributeSelector {
+  name: string;
+  operator: string | null; // null for a bare [attr]
+  value: string;
+  caseInsensitive: boolean;
+}
+
+interface PseudoClass {
+  name: string;
+  selectors?: ComplexSelector[]; // :not(), :is(), :where(), :nth-child(... of S)
+  nth?: { a: number; b: number };
+}
+
+interface CompoundSelector {
+  tagName: string | null;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeSelector[];
+  pseudoClasses: PseudoClass[];
+  pseudoElement: string | null;
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  combinators: string[]; // combinators[i] sits between compounds[i] and compounds[i + 1]
+  specificity: Specificity;
+}
+
+// User-action and navigation states: a static import always renders the default state
+const DYNAMIC_PSEUDO_CLASSES = [
+  'hover', 'active', 'focus', 'focus-visible', 'focus-within', 'visited', 'target',
+  'target-within', 'current', 'past', 'future', 'playing', 'paused', 'user-invalid', 'autofill'
+];
+
+// Legacy pseudo-elements that may be written with a single colon
+const LEGACY_PSEUDO_ELEMENTS = ['before', 'after', 'first-line', 'first-letter'];
+
+const FORM_CONTROLS = ['button', 'input', 'select', 'textarea', 'optgroup', 'option', 'fieldset'];
+
+/**
+ * Parses CSS selectors (compound selectors, the four combinators, attribute
+ * selectors, structural and logical pseudo-classes, selector lists) and
+ * matches them against SimpleElement trees through their parent chain.
+ */
+export class SelectorEngine {
+  private cache: Map<string, ComplexSelector[] | null> = new Map();
+
+  /**
+   * Returns the specificity of the most specific selector in the list that
+   * matches the element, or null when none does. Specificity is encoded as a
+   * single comparable number.
+   */
+  matchSpecificity(selectorList: string, element: SimpleElement): number | null {
+    const selectors = this.parseSelectorList(selectorList);
+    if (!selectors) return null;
+
+    let best: number | null = null;
+    for (const selector of selectors) {
+      if (this.matchesComplex(selector, element)) {
+        const value = this.encodeSpecificity(selector.specificity);
+        if (best === null || value > best) best = value;
+      }
+    }
+    return best;
+  }
+
+  matches(selectorList: string, element: SimpleElement): boolean {
+    return this.matchSpecificity(selectorList, element) !== null;
+  }
+
+  // An invalid selector invalidates the whole list, as in CSS
+  private parseSelectorList(selectorList: string): ComplexSelector[] | null {
+    if (this.cache.has(selectorList)) {
+      return this.cache.get(selectorList)!;
+    }
+
+    let result: ComplexSelector[] | null;
+    try {
+      const parser = new SelectorParser(selectorList);
+      result = parser.parseList();
+    } catch (error) {
+      result = null;
+    }
+
+    this.cache.set(selectorList, result);
+    return result;
+  }
+
+  private encodeSpecificity(specificity: Specificity): number {
+    return specificity[0] * 1000000 + Math.min(specificity[1], 999) * 1000 + Math.min(specificity[2], 999);
+  }
+
+  private matchesComplex(selector: ComplexSelector, element: SimpleElement): boolean {
+    return this.matchFrom(selector, selector.compounds.length - 1, element);
+  }
+
+  // Matches compounds right to left, backtracking over ancestors and siblings
+  private matchFrom(selector: ComplexSelector, index: number, element: SimpleElement): boolean {
+    if (!this.matchesCompound(selector.compounds[index], element)) return false;
+    if (index === 0) return true;
+
+    const combinator = selector.combinators[index - 1];
+    switch (combinator) {
+      case '>':
+        return !!element.parent && this.matchFrom(selector, index - 1, element.parent);
+      case '+': {
+        const previous = this.previousSibling(element);
+        return !!previous && this.matchFrom(selector, index - 1, previous);
+      }
+      case '~': {
+        const siblings = this.siblings(element);
+        for (let i = siblings.indexOf(element) - 1; i >= 0; i--) {
+          if (this.matchFrom(selector, index - 1, siblings[i])) return true;
+        }
+        return false;
+      }
+      default: {
+        for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+          if (this.matchFrom(selector, index - 1, ancestor)) return true;
+        }
+        return false;
+      }
+    }
+  }
+
+  private matchesCompound(compound: CompoundSelector, element: SimpleElement): boolean {
+    // Pseudo-elements are not part of the element tree
+    if (compound.pseudoElement) return false;
+
+    if (compound.tagName && compound.tagName !== '*' && compound.tagName !== element.tagName) {
+      return false;
+    }
+
+    for (const id of compound.ids) {
+      if (element.attributes.id !== id) return false;
+    }
+
+    if (compound.classes.length > 0) {
+      const classes = (element.attributes.class || '').split(/\s+/);
+      for (const className of compound.classes) {
+        if (classes.indexOf(className) === -1) return false;
+      }
+    }
+
+    for (const attribute of compound.attributes) {
+      if (!this.matchesAttribute(attribute, element)) return false;
+    }
+
+    for (const pseudoClass of compound.pseudoClasses) {
+      if (!this.matchesPseudoClass(pseudoClass, element)) return false;
+    }
+
+    return true;
+  }
+
+  private matchesAttribute(selector: AttributeSelector, element: SimpleElement): boolean {
+    if (!Object.prototype.hasOwnProperty.call(element.attributes, selector.name)) return false;
+    if (selector.operator === null) return true;
+
+    let actual = element.attributes[selector.name];
+    let expected = selector.value;
+    if (selector.caseInsensitive) {
+      actual = actual.toLowerCase();
+      expected = expected.toLowerCase();
+    }
+
+    switch (selector.operator) {
+      case '=':
+        return actual === expected;
+      case '~=':
+        return expected !== '' && actual.split(/\s+/).indexOf(expected) !== -1;
+      case '|=':
+        return actual === expected || actual.indexOf(expected + '-') === 0;
+      case '^=':
+        return expected !== '' && actual.indexOf(expected) === 0;
+      case '$=':
+        return expected !== '' && actual.length >= expected.length &&
+          actual.lastIndexOf(expected) === actual.length - expected.length;
+      case '*=':
+        return expected !== '' && actual.indexOf(expected) !== -1;
+      default:
+        return false;
+    }
+  }
+
+  private matchesPseudoClass(pseudoClass: PseudoClass, element: SimpleElement): boolean {
+    const attributes = element.attributes;
+    const has = (name: string) => Object.prototype.hasOwnProperty.call(attributes, name);
+
+    switch (pseudoClass.name) {
+      case 'not':
+        return !pseudoClass.selectors!.some(selector => this.matchesComplex(selector, element));
+      case 'is':
+      case 'matches':
+      case 'any':
+      case 'where':
+        return pseudoClass.selectors!.some(selector => this.matchesComplex(selector, element));
+      case 'root':
+        return !element.parent && element.tagName === 'html';
+      case 'empty':
+        return element.children.length === 0 && element.textContent === '';
+      case 'first-child':
+        return this.siblings(element)[0] === element;
+      case 'last-child': {
+        const siblings = this.siblings(element);
+        return siblings[siblings.length - 1] === element;
+      }
+      case 'only-child':
+        return this.siblings(element).length === 1;
+      case 'first-of-type':
+        return this.siblingsOfType(element)[0] === element;
+      case 'last-of-type': {
+        const siblings = this.siblingsOfType(element);
+        return siblings[siblings.length - 1] === element;
+      }
+      case 'only-of-type':
+        return this.siblingsOfType(element).length === 1;
+      case 'nth-child':
+      case 'nth-last-child':
+      case 'nth-of-type':
+      case 'nth-last-of-type':
+        return this.matchesNth(pseudoClass, element);
+      case 'link':
+      case 'any-link':
+        return (element.tagName === 'a' || element.tagName === 'area') && has('href');
+      case 'checked':
+        return has('checked') || (element.tagName === 'option' && has('selected'));
+      case 'disabled':
+        return FORM_CONTROLS.indexOf(element.tagName) !== -1 && has('disabled');
+      case 'enabled':
+        return FORM_CONTROLS.indexOf(element.tagName) !== -1 && !has('disabled');
+      case 'required':
+        return has('required');
+      case 'optional':
+        return FORM_CONTROLS.indexOf(element.tagName) !== -1 && !has('required');
+      case 'read-only':
+        return has('readonly');
+      case 'read-write':
+        return (element.tagName === 'input' || element.tagName === 'textarea') && !has('readonly');
+      case 'placeholder-shown':
+        return has('placeholder') && !attributes.value;
+      case 'defined':
+        return true;
+      default:
+        // Dynamic states and unsupported pseudo-classes never match
+        return false;
+    }
+  }
+
+  private matchesNth(pseudoClass: PseudoClass, element: SimpleElement): boolean {
+    const ofType = pseudoClass.name.indexOf('of-type') !== -1;
+    const fromEnd = pseudoClass.name.indexOf('last') !== -1;
+
+    let siblings = ofType ? this.siblingsOfType(element) : this.siblings(element);
+    if (pseudoClass.selectors) {
+      const filter = pseudoClass.selectors;
+      siblings = siblings.filter(sibling => filter.some(selector => this.matchesComplex(selector, sibling)));
+    }
+
+    const index = siblings.indexOf(element);
+    if (index === -1) return false;
+
+    const position = fromEnd ? siblings.length - index : index + 1;
+    const { a, b } = pseudoClass.nth!;
+    if (a === 0) return position === b;
+    const n = (position - b) / a;
+    return n >= 0 && Math.floor(n) === n;
+  }
+
+  private siblings(element: SimpleElement): SimpleElement[] {
+    return element.parent ? element.parent.children : [element];
+  }
+
+  private siblingsOfType(element: SimpleElement): SimpleElement[] {
+    return this.siblings(element).filter(sibling => sibling.tagName === element.tagName);
+  }
+
+  private previousSibling(element: SimpleElement): SimpleElement | null {
+    const siblings = this.siblings(element);
+    const index = siblings.indexOf(element);
+    return index > 0 ? siblings[index - 1] : null;
+  }
+}
+
+/**
+ * Recursive-descent parser for a selector list. Throws on anything it does
+ * not understand so the caller can drop the rule.
+ */
+class SelectorParser {
+  private text: string;
+  private pos = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  parseList(): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      selectors.push(this.parseComplex());
+      this.skipWhitespace();
+      if (this.pos >= this.text.length) {
+        return selectors;
+      }
+      if (this.peek() !== ',') {
+        this.fail();
+      }
+      this.pos++;
+    }
+  }
+
+  private parseComplex(): ComplexSelector {
+    const compounds: CompoundSelector[] = [this.parseCompound()];
+    const combinators: string[] = [];
+
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      const ch = this.peek();
+
+      let combinator: string;
+      if (ch === '>' || ch === '+' || ch === '~') {
+        this.pos++;
+        this.skipWhitespace();
+        combinator = ch;
+      } else if (hadWhitespace && ch && ch !== ',' && ch !== ')') {
+        combinator = ' ';
+      } else {
+        break;
+      }
+
+      combinators.push(combinator);
+      compounds.push(this.parseCompound());
+    }
+
+    const specificity: Specificity = [0, 0, 0];
+    for (const compound of compounds) {
+      this.addSpecificity(specificity, this.compoundSpecificity(compound));
+    }
+
+    return { compounds, combinators, specificity };
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = {
+      tagName: null,
+      ids: [],
+      classes: [],
+      attributes: [],
+      pseudoClasses: [],
+      pseudoElement: null
+    };
+
+    const first = this.peek();
+    if (first === '*') {
+      this.pos++;
+      compound.tagName = '*';
+    } else if (this.isIdentStart(first)) {
+      compound.tagName = this.readIdentifier().toLowerCase();
+    }
+    // Namespace prefixes (`svg|rect`, `*|*`) are accepted and ignored
+    if (this.peek() === '|' && this.text.charAt(this.pos + 1) !== '=') {
+      this.pos++;
+      compound.tagName = this.peek() === '*' ? (this.pos++, '*') : this.readIdentifier().toLowerCase();
+    }
+
+    let parsedSomething = compound.tagName !== null;
+    for (;;) {
+      const ch = this.peek();
+      if (ch === '#') {
+        this.pos++;
+        compound.ids.push(this.readIdentifier());
+      } else if (ch === '.') {
+        this.pos++;
+        compound.classes.push(this.readIdentifier());
+      } else if (ch === '[') {
+        compound.attributes.push(this.parseAttribute());
+      } else if (ch === ':') {
+        this.parsePseudo(compound);
+      } else {
+        break;
+      }
+      parsedSomething = true;
+    }
+
+    if (!parsedSomething) this.fail();
+    return compound;
+  }
+
+  private parseAttribute(): AttributeSelector {
+    this.pos++; // '['
+    this.skipWhitespace();
+    const name = this.readIdentifier().toLowerCase();
+    this.skipWhitespace();
+
+    let operator: string | null = null;
+    let value = '';
+    let caseInsensitive = false;
+
+    const match = /^[~|^$*]?=/.exec(this.text.slice(this.pos));
+    if (match) {
+      operator = match[0];
+      this.pos += operator.length;
+      this.skipWhitespace();
+      const quote = this.peek();
+      value = quote === '"' || quote === "'" ? this.readString() : this.readIdentifier();
+      this.skipWhitespace();
+      if (/[is]/i.test(this.peek()) && /^[is]\s*\]/i.test(this.text.slice(this.pos))) {
+        caseInsensitive = this.peek().toLowerCase() === 'i';
+        this.pos++;
+        this.skipWhitespace();
+      }
+    }
+
+    if (this.peek() !== ']') this.fail();
+    this.pos++;
+    return { name, operator, value, caseInsensitive };
+  }
+
+  private parsePseudo(compound: CompoundSelector): void {
+    this.pos++; // ':'
+    const isElement = this.peek() === ':';
+    if (isElement) this.pos++;
+
+    const name = this.readIdentifier().toLowerCase();
+    let argument: string | null = null;
+    if (this.peek() === '(') {
+      argument = this.readParenthesized();
+    }
+
+    if (isElement || LEGACY_PSEUDO_ELEMENTS.indexOf(name) !== -1) {
+      compound.pseudoElement = name;
+      return;
+    }
+
+    const pseudoClass: PseudoClass = { name };
+    switch (name) {
+      case 'not':
+      case 'is':
+      case 'matches':
+      case 'any':
+      case 'where':
+        pseudoClass.selectors = new SelectorParser(argument || '').parseList();
+        break;
+      case 'nth-child':
+      case 'nth-last-child':
+      case 'nth-of-type':
+      case 'nth-last-of-type': {
+        const ofMatch = /^(.*?)\s+of\s+([\s\S]+)$/i.exec(argument || '');
+        pseudoClass.nth = this.parseNth(ofMatch ? ofMatch[1] : argument || '');
+        if (ofMatch && name.indexOf('child') !== -1) {
+          pseudoClass.selectors = new SelectorParser(ofMatch[2]).parseList();
+        }
+        break;
+      }
+      default:
+        if (argument !== null && DYNAMIC_PSEUDO_CLASSES.indexOf(name) === -1) {
+          // Functional pseudo-classes we cannot evaluate (:has(), :lang(), ...) never match
+          pseudoClass.name = 'unsupported';
+        }
+    }
+    compound.pseudoClasses.push(pseudoClass);
+  }
+
+  // Parses the An+B microsyntax, including `odd` and `even`
+  private parseNth(text: string): { a: number; b: number } {
+    const value = text.replace(/\s+/g, '').toLowerCase();
+    if (value === 'odd') return { a: 2, b: 1 };
+    if (value === 'even') return { a: 2, b: 0 };
+
+    const match = /^([+-]?\d*)n([+-]\d+)?$/.exec(value);
+    if (match) {
+      const coefficient = match[1] === '' || match[1] === '+' ? 1 : match[1] === '-' ? -1 : parseInt(match[1], 10);
+      return { a: coefficient, b: match[2] ? parseInt(match[2], 10) : 0 };
+    }
+    if (/^[+-]?\d+$/.test(value)) {
+      return { a: 0, b: parseInt(value, 10) };
+    }
+    return this.fail();
+  }
+
+  private compoundSpecificity(compound: CompoundSelector): Specificity {
+    const specificity: Specificity = [
+      compound.ids.length,
+      compound.classes.length + compound.attributes.length,
+      compound.tagName && compound.tagName !== '*' ? 1 : 0
+    ];
+    if (compound.pseudoElement) specificity[2]++;
+
+    for (const pseudoClass of compound.pseudoClasses) {
+      if (pseudoClass.name === 'where') continue;
+
+      const isLogical = ['not', 'is', 'matches', 'any'].indexOf(pseudoClass.name) !== -1;
+      if (!isLogical) specificity[1]++;
+
+      // Logical pseudo-classes and `of S` take the specificity of their most specific argument
+      if (pseudoClass.selectors) {
+        let strongest: Specificity = [0, 0, 0];
+        for (const selector of pseudoClass.selectors) {
+          if (this.compare(selector.specificity, strongest) > 0) strongest = selector.specificity;
+        }
+        this.addSpecificity(specificity, strongest);
+      }
+    }
+    return specificity;
+  }
+
+  private addSpecificity(target: Specificity, value: Specificity): void {
+    target[0] += value[0];
+    target[1] += value[1];
+    target[2] += value[2];
+  }
+
+  private compare(left: Specificity, right: Specificity): number {
+    return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+  }
+
+  // Reads an identifier, resolving CSS escapes such as `.md\:flex` or `\31 0`
+  private readIdentifier(): string {
+    let result = '';
+    while (this.pos < this.text.length) {
+      const ch = this.peek();
+      if (ch === '\\') {
+        result += this.readEscape();
+      } else if (/[A-Za-z0-9_-]/.test(ch) || ch.charCodeAt(0) > 0x7F) {
+        result += ch;
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+    if (!result) this.fail();
+    return result;
+  }
+
+  private readEscape(): string {
+    this.pos++; // '\'
+    const hex = /^[0-9a-fA-F]{1,6}/.exec(this.text.slice(this.pos));
+    if (hex) {
+      this.pos += hex[0].length;
+      if (/\s/.test(this.peek())) this.pos++;
+      const code = parseInt(hex[0], 16);
+      return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : '\uFFFD';
+    }
+    const ch = this.peek();
+    this.pos++;
+    return ch;
+  }
+
+  private readString(): string {
+    const quote = this.peek();
+    this.pos++;
+    let result = '';
+    while (this.pos < this.text.length && this.peek() !== quote) {
+      result += this.peek() === '\\' ? this.readEscape() : this.text.charAt(this.pos++);
+    }
+    this.pos++; // closing quote
+    return result;
+  }
+
+  private readParenthesized(): string {
+    const start = ++this.pos; // '('
+    let depth = 1;
+    while (this.pos < this.text.length) {
+      const ch = this.peek();
+      if (ch === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        this.readString();
+        continue;
+      }
+      if (ch === '(') depth++;
+      if (ch === ')' && --depth === 0) {
+        return this.text.slice(start, this.pos++);
+      }
+      this.pos++;
+    }
+    return this.fail();
+  }
+
+  private isIdentStart(ch: string): boolean {
+    return /[A-Za-z_\\-]/.test(ch) || ch.charCodeAt(0) > 0x7F;
+  }
+
+  private peek(): string {
+    return this.text.charAt(this.pos);
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.peek()) && this.pos < this.text.length) this.pos++;
+    return this.pos > start;
+  }
+
+  private fail(): never {
+    throw new Error(`无效的CSS选择器: ${this.text}`);
+  }
+}
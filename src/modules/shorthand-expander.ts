@@ -0,0 +1,462 @@
+import { splitTopLevel } from './css-split';
+
+const SIDES = ['top', 'right', 'bottom', 'left'];
+const CORNERS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+const BORDER_STYLES = ['none', 'hidden', 'dotted', 'dashed', 'solid', 'double', 'groove', 'ridge', 'inset', 'outset'];
+const BORDER_WIDTH_KEYWORDS = ['thin', 'medium', 'thick'];
+const CSS_WIDE_KEYWORDS = ['inherit', 'initial', 'unset', 'revert', 'revert-layer'];
+
+const FONT_STYLES = ['italic', 'oblique'];
+const FONT_WEIGHTS = ['bold', 'bolder', 'lighter'];
+const FONT_STRETCHES = [
+  'ultra-condensed', 'extra-condensed', 'condensed', 'semi-condensed',
+  'semi-expanded', 'expanded', 'extra-expanded', 'ultra-expanded'
+];
+const FONT_SIZE_KEYWORDS = ['xx-small', 'x-small', 'small', 'medium', 'large', 'x-large', 'xx-large', 'xxx-large', 'larger', 'smaller'];
+
+const BACKGROUND_REPEATS = ['repeat', 'repeat-x', 'repeat-y', 'no-repeat', 'space', 'round'];
+const BACKGROUND_ATTACHMENTS = ['scroll', 'fixed', 'local'];
+const BACKGROUND_BOXES = ['border-box', 'padding-box', 'content-box', 'text'];
+const POSITION_KEYWORDS = ['left', 'right', 'top', 'bottom', 'center'];
+
+const FLEX_DIRECTIONS = ['row', 'row-reverse', 'column', 'column-reverse'];
+const FLEX_WRAPS = ['nowrap', 'wrap', 'wrap-reverse'];
+
+const DECORATION_LINES = ['none', 'underline', 'overline', 'line-through', 'blink'];
+const DECORATION_STYLES = ['solid', 'double', 'dotted', 'dashed', 'wavy'];
+
+const LIST_STYLE_POSITIONS = ['inside', 'outside'];
+
+// Longhands of every supported shorthand, in the order they are written out
+const LONGHANDS: { [shorthand: string]: string[] } = {
+  'margin': SIDES.map(side => `margin-${side}`),
+  'padding': SIDES.map(side => `padding-${side}`),
+  'inset': SIDES,
+  'border-width': SIDES.map(side => `border-${side}-width`),
+  'border-style': SIDES.map(side => `border-${side}-style`),
+  'border-color': SIDES.map(side => `border-${side}-color`),
+  'border-radius': CORNERS.map(corner => `border-${corner}-radius`),
+  'border': ([] as string[]).concat(...SIDES.map(side => [`border-${side}-width`, `border-${side}-style`, `border-${side}-color`])),
+  'border-top': ['border-top-width', 'border-top-style', 'border-top-color'],
+  'border-right': ['border-right-width', 'border-right-style', 'border-right-color'],
+  'border-bottom': ['border-bottom-width', 'border-bottom-style', 'border-bottom-color'],
+  'border-left': ['border-left-width', 'border-left-style', 'border-left-color'],
+  'outline': ['outline-width', 'outline-style', 'outline-color'],
+  'background': [
+    'background-color', 'background-image', 'background-position', 'background-size', 'background-repeat',
+    'background-attachment', 'background-origin', 'background-clip'
+  ],
+  'font': ['font-style', 'font-variant', 'font-weight', 'font-stretch', 'font-size', 'line-height', 'font-family'],
+  'flex': ['flex-grow', 'flex-shrink', 'flex-basis'],
+  'flex-flow': ['flex-direction', 'flex-wrap'],
+  'gap': ['row-gap', 'column-gap'],
+  'grid-gap': ['row-gap', 'column-gap'],
+  'overflow': ['overflow-x', 'overflow-y'],
+  'place-items': ['align-items', 'justify-items'],
+  'place-content': ['align-content', 'justify-content'],
+  'place-self': ['align-self', 'justify-self'],
+  'text-decoration': ['text-decoration-line', 'text-decoration-style', 'text-decoration-color', 'text-decoration-thickness'],
+  'list-style': ['list-style-type', 'list-style-position', 'list-style-image'],
+  'grid-row': ['grid-row-start', 'grid-row-end'],
+  'grid-column': ['grid-column-start', 'grid-column-end'],
+  'grid-area': ['grid-row-start', 'grid-column-start', 'grid-row-end', 'grid-column-end']
+};
+
+/**
+ * Expands shorthand properties into their longhands, the way the CSS
+ * parser does: every longhand of the shorthand is set, and the ones the
+ * value leaves out are reset to their initial value. Returns null for
+ * values the shorthand grammar does not accept, so the declaration is
+ * dropped like an invalid one.
+ */
+export class ShorthandExpander {
+  isShorthand(property: string): boolean {
+    return Object.prototype.hasOwnProperty.call(LONGHANDS, property);
+  }
+
+  getLonghands(property: string): string[] {
+    return LONGHANDS[property] || [];
+  }
+
+  expand(property: string, value: string): { [longhand: string]: string } | null {
+    const longhands = LONGHANDS[property];
+    if (!longhands) return null;
+
+    const trimmed = value.trim();
+    if (CSS_WIDE_KEYWORDS.indexOf(trimmed.toLowerCase()) !== -1) {
+      return this.assign(longhands, longhands.map(() => trimmed));
+    }
+
+    const tokens = this.tokenize(trimmed);
+    if (tokens.length === 0) return null;
+
+    switch (property) {
+      case 'margin':
+      case 'padding':
+      case 'inset':
+      case 'border-width':
+      case 'border-style':
+      case 'border-color':
+        return this.expandBox(longhands, tokens);
+      case 'border-radius':
+        return this.expandBorderRadius(tokens);
+      case 'border':
+        return this.expandBorder(longhands, tokens, 4);
+      case 'border-top':
+      case 'border-right':
+      case 'border-bottom':
+      case 'border-left':
+      case 'outline':
+        return this.expandBorder(longhands, tokens, 1);
+      case 'background':
+        return this.expandBackground(trimmed);
+      case 'font':
+        return this.expandFont(tokens);
+      case 'flex':
+        return this.expandFlex(tokens);
+      case 'flex-flow':
+        return this.expandFlexFlow(tokens);
+      case 'text-decoration':
+        return this.expandTextDecoration(tokens);
+      case 'list-style':
+        return this.expandListStyle(tokens);
+      case 'grid-row':
+      case 'grid-column':
+      case 'grid-area':
+        return this.expandGridPlacement(longhands, trimmed);
+      default:
+        // Two-value shorthands: gap, overflow, place-*
+        if (tokens.length > 2) return null;
+        return this.assign(longhands, [tokens[0], tokens[1] || tokens[0]]);
+    }
+  }
+
+  // 1-4 values for top, right, bottom and left
+  private expandBox(longhands: string[], tokens: string[]): { [longhand: string]: string } | null {
+    if (tokens.length > 4 || tokens.indexOf('/') !== -1) return null;
+    return this.assign(longhands, this.toFourSides(tokens));
+  }
+
+  // `a b c d / e f g h`: horizontal radii, then optional vertical radii, per corner
+  private expandBorderRadius(tokens: string[]): { [longhand: string]: string } | null {
+    const slash = tokens.indexOf('/');
+    const horizontal = slash === -1 ? tokens : tokens.slice(0, slash);
+    const vertical = slash === -1 ? null : tokens.slice(slash + 1);
+    if (horizontal.length === 0 || horizontal.length > 4) return null;
+    if (vertical && (vertical.length === 0 || vertical.length > 4)) return null;
+
+    const h = this.toFourSides(horizontal);
+    const v = vertical ? this.toFourSides(vertical) : null;
+    return this.assign(LONGHANDS['border-radius'], h.map((radius, i) => v && v[i] !== radius ? `${radius} ${v[i]}` : radius));
+  }
+
+  // <line-width> || <line-style> || <color>, repeated for each side the shorthand covers
+  private expandBorder(longhands: string[], tokens: string[], sides: number): { [longhand: string]: string } | null {
+    let width = 'medium';
+    let style = 'none';
+    let color = 'currentcolor';
+    const seen: { [part: string]: boolean } = {};
+
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+      if (!seen.width && (BORDER_WIDTH_KEYWORDS.indexOf(lower) !== -1 || this.isLength(token))) {
+        width = token;
+        seen.width = true;
+      } else if (!seen.style && (BORDER_STYLES.indexOf(lower) !== -1 || lower === 'auto')) {
+        style = lower;
+        seen.style = true;
+      } else if (!seen.color && this.isColor(token)) {
+        color = token;
+        seen.color = true;
+      } else {
+        return null;
+      }
+    }
+
+    const values: string[] = [];
+    for (let i = 0; i < sides; i++) {
+      values.push(width, style, color);
+    }
+    return this.assign(longhands, values);
+  }
+
+  private expandBackground(value: string): { [longhand: string]: string } | null {
+    const layers = splitTopLevel(value, ',');
+    const images: string[] = [];
+    const positions: string[] = [];
+    const sizes: string[] = [];
+    const repeats: string[] = [];
+    const attachments: string[] = [];
+    const origins: string[] = [];
+    const clips: string[] = [];
+    let color = 'transparent';
+
+    for (let i = 0; i < layers.length; i++) {
+      const tokens = this.tokenize(layers[i].trim());
+      const isFinalLayer = i === layers.length - 1;
+      let image = 'none';
+      let position: string[] = [];
+      const size: string[] = [];
+      const repeat: string[] = [];
+      let attachment = 'scroll';
+      const boxes: string[] = [];
+      let layerColor: string | null = null;
+
+      for (let j = 0; j < tokens.length; j++) {
+        const token = tokens[j];
+        const lower = token.toLowerCase();
+
+        if (this.isImage(token)) {
+          image = token;
+        } else if (BACKGROUND_REPEATS.indexOf(lower) !== -1) {
+          repeat.push(lower);
+        } else if (BACKGROUND_ATTACHMENTS.indexOf(lower) !== -1) {
+          attachment = lower;
+        } else if (BACKGROUND_BOXES.indexOf(lower) !== -1) {
+          boxes.push(lower);
+        } else if (POSITION_KEYWORDS.indexOf(lower) !== -1 || this.isLength(token)) {
+          // A position, optionally followed by `/ <size>`
+          position = [];
+          while (j < tokens.length && (POSITION_KEYWORDS.indexOf(tokens[j].toLowerCase()) !== -1 || this.isLength(tokens[j]))) {
+            position.push(tokens[j++]);
+          }
+          if (tokens[j] === '/') {
+            j++;
+            while (j < tokens.length && (this.isLength(tokens[j]) || ['auto', 'cover', 'contain'].indexOf(tokens[j].toLowerCase()) !== -1)) {
+              size.push(tokens[j++]);
+            }
+            if (size.length === 0) return null;
+          }
+          j--;
+        } else if (isFinalLayer && layerColor === null && this.isColor(token)) {
+          layerColor = token;
+        } else {
+          return null;
+        }
+      }
+
+      if (repeat.length > 2 || boxes.length > 2) return null;
+
+      images.push(image);
+      positions.push(position.length ? position.join(' ') : '0% 0%');
+      sizes.push(size.length ? size.join(' ') : 'auto');
+      repeats.push(repeat.length ? repeat.join(' ') : 'repeat');
+      attachments.push(attachment);
+      origins.push(boxes[0] || 'padding-box');
+      clips.push(boxes[1] || boxes[0] || 'border-box');
+      if (layerColor !== null) color = layerColor;
+    }
+
+    return this.assign(LONGHANDS.background, [
+      color, images.join(', '), positions.join(', '), sizes.join(', '), repeats.join(', '),
+      attachments.join(', '), origins.join(', '), clips.join(', ')
+    ]);
+  }
+
+  // [style || variant || weight || stretch]? size [/ line-height]? family
+  private expandFont(tokens: string[]): { [longhand: string]: string } | null {
+    let style = 'normal';
+    let variant = 'normal';
+    let weight = 'normal';
+    let stretch = 'normal';
+    let i = 0;
+
+    for (; i < tokens.length; i++) {
+      const lower = tokens[i].toLowerCase();
+      if (lower === 'normal') continue;
+      if (FONT_STYLES.indexOf(lower) !== -1) style = lower;
+      else if (lower === 'small-caps') variant = lower;
+      else if (FONT_WEIGHTS.indexOf(lower) !== -1 || /^\d+$/.test(lower)) weight = lower;
+      else if (FONT_STRETCHES.indexOf(lower) !== -1) stretch = lower;
+      else break;
+    }
+
+    const size = tokens[i];
+    if (!size || !(this.isLength(size) || FONT_SIZE_KEYWORDS.indexOf(size.toLowerCase()) !== -1)) {
+      return null; // System fonts (caption, menu, ...) are not supported
+    }
+    i++;
+
+    let lineHeight = 'normal';
+    if (tokens[i] === '/') {
+      lineHeight = tokens[i + 1];
+      if (!lineHeight) return null;
+      i += 2;
+    }
+
+    const family = tokens.slice(i).join(' ').replace(/\s+,/g, ',');
+    if (!family) return null;
+
+    return this.assign(LONGHANDS.font, [style, variant, weight, stretch, size, lineHeight, family]);
+  }
+
+  // none | auto | <grow> <shrink>? || <basis>
+  private expandFlex(tokens: string[]): { [longhand: string]: string } | null {
+    const keyword = tokens.length === 1 ? tokens[0].toLowerCase() : '';
+    if (keyword === 'none') return this.assign(LONGHANDS.flex, ['0', '0', 'auto']);
+    if (keyword === 'auto') return this.assign(LONGHANDS.flex, ['1', '1', 'auto']);
+
+    const numbers: string[] = [];
+    let basis: string | null = null;
+    let previousWasNumber = false;
+
+    for (const token of tokens) {
+      // grow and shrink must be adjacent: `1 0 auto` or `auto 1 0`, never `1 auto 0`
+      const isNumber = /^[+]?(\d+\.?\d*|\.\d+)$/.test(token);
+      if (isNumber && (numbers.length === 0 || (numbers.length === 1 && previousWasNumber))) {
+        numbers.push(token);
+      } else if (!isNumber && basis === null && (this.isLength(token) || ['auto', 'content'].indexOf(token.toLowerCase()) !== -1)) {
+        basis = token;
+      } else {
+        return null;
+      }
+      previousWasNumber = isNumber;
+    }
+
+    return this.assign(LONGHANDS.flex, [numbers[0] || '1', numbers[1] || '1', basis !== null ? basis : '0%']);
+  }
+
+  private expandFlexFlow(tokens: string[]): { [longhand: string]: string } | null {
+    let direction = 'row';
+    let wrap = 'nowrap';
+
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+      if (FLEX_DIRECTIONS.indexOf(lower) !== -1) direction = lower;
+      else if (FLEX_WRAPS.indexOf(lower) !== -1) wrap = lower;
+      else return null;
+    }
+
+    return this.assign(LONGHANDS['flex-flow'], [direction, wrap]);
+  }
+
+  private expandTextDecoration(tokens: string[]): { [longhand: string]: string } | null {
+    const lines: string[] = [];
+    let style = 'solid';
+    let color = 'currentcolor';
+    let thickness = 'auto';
+
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+      if (DECORATION_LINES.indexOf(lower) !== -1) lines.push(lower);
+      else if (DECORATION_STYLES.indexOf(lower) !== -1) style = lower;
+      else if (this.isLength(token) || lower === 'from-font') thickness = token;
+      else if (this.isColor(token)) color = token;
+      else return null;
+    }
+
+    return this.assign(LONGHANDS['text-decoration'], [lines.length ? lines.join(' ') : 'none', style, color, thickness]);
+  }
+
+  private expandListStyle(tokens: string[]): { [longhand: string]: string } | null {
+    let type: string | null = null;
+    let position = 'outside';
+    let image: string | null = null;
+
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+      if (LIST_STYLE_POSITIONS.indexOf(lower) !== -1) position = lower;
+      else if (this.isImage(token)) image = token;
+      else if (lower === 'none' && (type !== null || image === null)) {
+        // `none` sets whichever of type and image is not given explicitly
+        if (type === null) type = 'none';
+        else image = 'none';
+      } else if (type === null) type = token;
+      else return null;
+    }
+
+    return this.assign(LONGHANDS['list-style'], [type || 'disc', position, image || 'none']);
+  }
+
+  // `start / end` lines; grid-area takes up to four, in row-start / column-start / row-end / column-end order
+  private expandGridPlacement(longhands: string[], value: string): { [longhand: string]: string } | null {
+    const parts = value.split('/').map(part => part.trim());
+    if (parts.length > longhands.length || parts.some(part => !part)) return null;
+
+    const values: string[] = [];
+    for (let i = 0; i < longhands.length; i++) {
+      if (parts[i] !== undefined) {
+        values.push(parts[i]);
+      } else {
+        // An omitted line copies the opposite one when that is a custom name, otherwise it is auto
+        const opposite = values[i < 2 ? 0 : i - 2];
+        values.push(/^[a-z_-][\w-]*$/i.test(opposite) && opposite !== 'auto' ? opposite : 'auto');
+      }
+    }
+    return this.assign(longhands, values);
+  }
+
+  private toFourSides(values: string[]): string[] {
+    const top = values[0];
+    const right = values[1] !== undefined ? values[1] : top;
+    const bottom = values[2] !== undefined ? values[2] : top;
+    const left = values[3] !== undefined ? values[3] : right;
+    return [top, right, bottom, left];
+  }
+
+  private assign(longhands: string[], values: string[]): { [longhand: string]: string } {
+    const result: { [longhand: string]: string } = {};
+    longhands.forEach((longhand, i) => {
+      result[longhand] = values[i];
+    });
+    return result;
+  }
+
+  private isLength(token: string): boolean {
+    return /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?([a-z]+|%)?$/i.test(token) ||
+      /^(?:-webkit-)?(calc|min|max|clamp)\(/i.test(token);
+  }
+
+  private isImage(token: string): boolean {
+    return /^(url|image|image-set|-webkit-image-set|cross-fade|element|(?:-webkit-)?(?:repeating-)?(?:linear|radial|conic)-gradient)\(/i.test(token);
+  }
+
+  // Anything that is not a keyword of the shorthand and has the shape of a color
+  private isColor(token: string): boolean {
+    return /^#[0-9a-f]{3,8}$/i.test(token) ||
+      /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix|light-dark)\(/i.test(token) ||
+      /^[a-z]+$/i.test(token);
+  }
+
+  // Splits on top-level whitespace; `/` and `,` become tokens of their own
+  private tokenize(value: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quote = '';
+
+    const flush = () => {
+      if (current) tokens.push(current);
+      current = '';
+    };
+
+    for (let i = 0; i < value.length; i++) {
+      const ch = value.charAt(i);
+      if (quote) {
+        current += ch;
+        if (ch === '\\') current += value.charAt(++i);
+        else if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+        current += ch;
+      } else if (ch === '(') {
+        depth++;
+        current += ch;
+      } else if (ch === ')') {
+        depth = Math.max(0, depth - 1);
+        current += ch;
+      } else if (depth === 0 && /\s/.test(ch)) {
+        flush();
+      } else if (depth === 0 && (ch === '/' || ch === ',')) {
+        flush();
+        tokens.push(ch);
+      } else {
+        current += ch;
+      }
+    }
+    flush();
+
+    return tokens;
+  }
+}
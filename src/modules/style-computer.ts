@@ -0,0 +1,344 @@
+import { Viewport } from '../types';
+import { CssMathEvaluator, UnitContext } from './css-math';
+import { ShorthandExpander } from './shorthand-expander';
+
+// Properties that inherit by default (CSS 2.2 / CSS Text / CSS Fonts)
+const INHERITED_PROPERTIES = [
+  'color', 'cursor', 'direction', 'font-family', 'font-feature-settings', 'font-kerning',
+  'font-size', 'font-stretch', 'font-style', 'font-variant', 'font-weight', 'hyphens',
+  'letter-spacing', 'line-height', 'list-style-image', 'list-style-position',
+  'list-style-type', 'overflow-wrap', 'quotes', 'tab-size', 'text-align', 'text-align-last',
+  'text-indent', 'text-rendering', 'text-shadow', 'text-transform', 'visibility', 'white-space',
+  'word-break', 'word-spacing', 'word-wrap', 'writing-mode', '-webkit-text-fill-color',
+  // SVG painting
+  'clip-rule', 'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-dasharray', 'stroke-dashoffset',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-opacity', 'stroke-width'
+];
+
+// SVG attributes that are presentation hints: they set the property unless a CSS rule does
+const PRESENTATION_ATTRIBUTES = [
+  'clip-rule', 'fill', 'fill-opacity', 'fill-rule', 'stop-color', 'stop-opacity', 'stroke', 'stroke-dasharray',
+  'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-opacity', 'stroke-width'
+];
+
+// Initial values of inherited properties, used by `initial` and `unset`
+const INITIAL_VALUES: { [property: string]: string } = {
+  'color': '#000000',
+  'font-size': 'medium',
+  'font-style': 'normal',
+  'font-weight': 'normal',
+  'letter-spacing': 'normal',
+  'line-height': 'normal',
+  'text-align': 'start',
+  'text-indent': '0px',
+  'text-transform': 'none',
+  'visibility': 'visible',
+  'white-space': 'normal',
+  'word-spacing': 'normal'
+};
+
+// Block margins as in the browsers' default style sheet
+function blockMargins(vertical: string, horizontal = '0px'): { [property: string]: string } {
+  return { 'margin-top': vertical, 'margin-right': horizontal, 'margin-bottom': vertical, 'margin-left': horizontal };
+}
+
+// The parts of the browser stylesheet that inheritance and block layout depend on
+const DEFAULT_STYLES: { [tagName: string]: { [property: string]: string } } = {
+  body: blockMargins('8px', '8px'),
+  h1: Object.assign({ 'font-size': '2em', 'font-weight': 'bold' }, blockMargins('0.67em')),
+  h2: Object.assign({ 'font-size': '1.5em', 'font-weight': 'bold' }, blockMargins('0.83em')),
+  h3: Object.assign({ 'font-size': '1.17em', 'font-weight': 'bold' }, blockMargins('1em')),
+  h4: Object.assign({ 'font-size': '1em', 'font-weight': 'bold' }, blockMargins('1.33em')),
+  h5: Object.assign({ 'font-size': '0.83em', 'font-weight': 'bold' }, blockMargins('1.67em')),
+  h6: Object.assign({ 'font-size': '0.67em', 'font-weight': 'bold' }, blockMargins('2.33em')),
+  p: blockMargins('1em'),
+  blockquote: blockMargins('1em', '40px'),
+  figure: blockMargins('1em', '40px'),
+  dl: blockMargins('1em'),
+  dd: { 'margin-left': '40px' },
+  ul: Object.assign({ 'padding-left': '40px' }, blockMargins('1em')),
+  ol: Object.assign({ 'padding-left': '40px' }, blockMargins('1em')),
+  b: { 'font-weight': 'bold' },
+  strong: { 'font-weight': 'bold' },
+  th: { 'font-weight': 'bold' },
+  em: { 'font-style': 'italic' },
+  i: { 'font-style': 'italic' },
+  cite: { 'font-style': 'italic' },
+  var: { 'font-style': 'italic' },
+  dfn: { 'font-style': 'italic' },
+  small: { 'font-size': 'smaller' },
+  sub: { 'font-size': 'smaller', 'vertical-align': 'sub' },
+  sup: { 'font-size': 'smaller', 'vertical-align': 'super' },
+  code: { 'font-family': 'monospace' },
+  kbd: { 'font-family': 'monospace' },
+  samp: { 'font-family': 'monospace' },
+  pre: Object.assign({ 'font-family': 'monospace', 'white-space': 'pre' }, blockMargins('1em')),
+  textarea: { 'white-space': 'pre-wrap' }
+};
+
+// Font sizes for the absolute-size keywords when `medium` is 16px; they scale with the default font size
+const FONT_SIZE_KEYWORDS: { [keyword: string]: number } = {
+  'xx-small': 9,
+  'x-small': 10,
+  'small': 13,
+  'medium': 16,
+  'large': 18,
+  'x-large': 24,
+  'xx-large': 32,
+  'xxx-large': 48
+};
+
+export const DEFAULT_FONT_SIZE = 16;
+
+// What the computed values of one conversion are resolved against
+export interface StyleContext {
+  viewport: Viewport;
+  defaultFontSize: number; // The browser's `medium`, which is also the root font size unless CSS changes it
+  rootFontSize: number; // Computed font-size of the root element, the basis of rem
+}
+
+const VAR_FUNCTION = /(^|[^\w-])var\(/i;
+
+/**
+ * Turns cascaded (specified) values into computed values: inherited
+ * properties and custom properties flow down from the parent, the
+ * `inherit`, `initial`, `unset` and `revert` keywords are resolved, `var()`
+ * references are substituted, math functions are evaluated where their
+ * units allow, and font-relative font-size and line-height values become px
+ * so descendants inherit absolute values.
+ */
+export class StyleComputer {
+  private mathEvaluator = new CssMathEvaluator();
+  private shorthandExpander = new ShorthandExpander();
+
+  computeStyles(
+    tagName: string,
+    attributes: { [key: string]: string },
+    specified: { [property: string]: string },
+    parentStyles: { [property: string]: string } | null,
+    context: StyleContext
+  ): { [property: string]: string } {
+    const parent = parentStyles || {};
+    const computed: { [property: string]: string } = {};
+
+    // Inheritance: the parent's computed value unless the property is set here
+    for (const property of INHERITED_PROPERTIES) {
+      if (parent[property] !== undefined) {
+        computed[property] = parent[property];
+      }
+    }
+    for (const property in parent) {
+      if (this.isCustomProperty(property)) {
+        computed[property] = parent[property];
+      }
+    }
+
+    const defaults = this.getDefaultStyles(tagName, attributes);
+    for (const property in defaults) {
+      computed[property] = defaults[property];
+    }
+
+    for (const property in specified) {
+      const value = specified[property];
+      const keyword = value.trim().toLowerCase();
+      const isInherited = INHERITED_PROPERTIES.indexOf(property) !== -1 || this.isCustomProperty(property);
+
+      if (keyword === 'inherit' || ((keyword === 'unset' || keyword === 'revert') && isInherited)) {
+        if (parent[property] !== undefined) {
+          computed[property] = parent[property];
+        } else {
+          delete computed[property];
+        }
+      } else if (keyword === 'initial' || keyword === 'unset' || keyword === 'revert') {
+        // For custom properties `initial` is the guaranteed-invalid value, i.e. no value
+        if (INITIAL_VALUES[property] !== undefined) {
+          computed[property] = INITIAL_VALUES[property];
+        } else {
+          delete computed[property];
+        }
+      } else {
+        computed[property] = value;
+      }
+    }
+
+    this.substituteVariables(computed, parent);
+    this.expandPendingShorthands(computed, specified);
+
+    // `color: currentColor` refers to the inherited color
+    if (computed.color !== undefined && computed.color.trim().toLowerCase() === 'currentcolor') {
+      if (parent.color !== undefined) {
+        computed.color = parent.color;
+      } else {
+        delete computed.color;
+      }
+    }
+
+    // font-size first: em and % in it refer to the parent, everywhere else to this element's font size
+    const parentFontSize = this.parsePx(parent['font-size']) || context.defaultFontSize;
+    if (computed['font-size'] !== undefined && computed['font-size'] !== parent['font-size']) {
+      const value = this.resolveValue(computed['font-size'], this.getUnitContext(context, parentFontSize, parentFontSize));
+      const fontSize = this.computeFontSize(value, parentFontSize, context.defaultFontSize);
+      computed['font-size'] = fontSize !== null ? `${fontSize}px` : value;
+    }
+
+    const fontSize = this.parsePx(computed['font-size']) || parentFontSize;
+    const unitContext = this.getUnitContext(context, fontSize);
+    for (const property in computed) {
+      if (property === 'font-size' || this.isCustomProperty(property) || computed[property] === parent[property]) continue;
+      // A unitless line-height stays a number so descendants scale it by their own font size
+      computed[property] = this.resolveValue(computed[property],
+        property === 'line-height' ? this.getUnitContext(context, fontSize, fontSize) : unitContext);
+    }
+
+    return computed;
+  }
+
+  /**
+   * Replaces `var()` references with custom property values, custom
+   * properties first since they may refer to each other. A reference that
+   * cannot be resolved and has no fallback makes the declaration invalid at
+   * computed-value time: the property then behaves as if set to `unset`.
+   */
+  private substituteVariables(computed: { [property: string]: string }, parent: { [property: string]: string }): void {
+    const resolved: { [property: string]: string | null } = {};
+
+    const resolveCustomProperty = (name: string, resolving: string[]): string | null => {
+      if (resolved[name] !== undefined) return resolved[name];
+      if (computed[name] === undefined || resolving.indexOf(name) !== -1) return null;
+
+      const value = this.substituteValue(computed[name], resolving.concat(name), resolveCustomProperty);
+      resolved[name] = value;
+      return value;
+    };
+
+    for (const property in computed) {
+      if (!this.isCustomProperty(property) || !VAR_FUNCTION.test(computed[property])) continue;
+      const value = resolveCustomProperty(property, []);
+      if (value === null) {
+        delete computed[property];
+      } else {
+        computed[property] = value;
+      }
+    }
+
+    for (const property in computed) {
+      if (this.isCustomProperty(property) || !VAR_FUNCTION.test(computed[property])) continue;
+      const value = this.substituteValue(computed[property], [], resolveCustomProperty);
+      if (value !== null) {
+        computed[property] = value;
+      } else if (INHERITED_PROPERTIES.indexOf(property) !== -1 && parent[property] !== undefined) {
+        computed[property] = parent[property];
+      } else {
+        delete computed[property];
+      }
+    }
+  }
+
+  /**
+   * Expands shorthands that held `var()` during the cascade. Longhands the
+   * cascade set on their own came after the shorthand, so they are kept.
+   */
+  private expandPendingShorthands(
+    computed: { [property: string]: string },
+    specified: { [property: string]: string }
+  ): void {
+    for (const property in computed) {
+      if (!this.shorthandExpander.isShorthand(property)) continue;
+
+      const longhands = this.shorthandExpander.expand(property, computed[property]);
+      delete computed[property];
+      if (!longhands) continue;
+
+      for (const longhand in longhands) {
+        if (specified[longhand] === undefined) {
+          computed[longhand] = longhands[longhand];
+        }
+      }
+    }
+  }
+
+  private substituteValue(
+    value: string,
+    resolving: string[],
+    resolveCustomProperty: (name: string, resolving: string[]) => string | null
+  ): string | null {
+    let result = '';
+    let rest = value;
+    let match;
+
+    while ((match = VAR_FUNCTION.exec(rest)) !== null) {
+      const start = match.index + match[1].length;
+      const argsStart = match.index + match[0].length;
+      const end = this.findClosingParen(rest, argsStart);
+      if (end === -1) return null;
+
+      const args = rest.slice(argsStart, end);
+      const comma = args.indexOf(',');
+      const name = (comma === -1 ? args : args.slice(0, comma)).trim();
+      let replacement = this.isCustomProperty(name) ? resolveCustomProperty(name, resolving) : null;
+
+      if (replacement === null && comma !== -1) {
+        replacement = this.substituteValue(args.slice(comma + 1).trim(), resolving, resolveCustomProperty);
+      }
+      if (replacement === null) return null;
+
+      result += rest.slice(0, start) + replacement;
+      rest = rest.slice(end + 1);
+    }
+
+    return (result + rest).trim();
+  }
+
+  private findClosingParen(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+      if (text.charAt(i) === '(') depth++;
+      else if (text.charAt(i) === ')' && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private isCustomProperty(property: string): boolean {
+    return property.indexOf('--') === 0;
+  }
+
+  private getDefaultStyles(tagName: string, attributes: { [key: string]: string }): { [property: string]: string } {
+    const defaults: { [property: string]: string } = tagName === 'a' && attributes.href !== undefined
+      ? { 'color': '#0000ee', 'text-decoration-line': 'underline' }
+      : Object.assign({}, DEFAULT_STYLES[tagName]);
+
+    for (const property of PRESENTATION_ATTRIBUTES) {
+      if (attributes[property] !== undefined) {
+        defaults[property] = attributes[property].trim();
+      }
+    }
+    return defaults;
+  }
+
+  private getUnitContext(context: StyleContext, fontSize: number, percentBasis?: number): UnitContext {
+    return { fontSize, rootFontSize: context.rootFontSize, viewport: context.viewport, percentBasis };
+  }
+
+  // Computed lengths are absolute: math functions are evaluated and relative units become px
+  private resolveValue(value: string, unitContext: UnitContext): string {
+    return this.mathEvaluator.resolveLengths(this.mathEvaluator.resolve(value, unitContext), unitContext);
+  }
+
+  private computeFontSize(value: string, parentFontSize: number, defaultFontSize: number): number | null {
+    const keyword = value.trim().toLowerCase();
+    if (FONT_SIZE_KEYWORDS[keyword] !== undefined) return this.round(FONT_SIZE_KEYWORDS[keyword] * defaultFontSize / 16);
+    if (keyword === 'larger') return this.round(parentFontSize * 1.2);
+    if (keyword === 'smaller') return this.round(parentFontSize / 1.2);
+    return this.parsePx(keyword);
+  }
+
+  private parsePx(value: string | undefined): number | null {
+    if (!value) return null;
+    const match = /^(-?[\d.]+)px$/.exec(value.trim());
+    return match ? parseFloat(match[1]) : null;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
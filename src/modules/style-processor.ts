@@ -1,35 +1,84 @@
-import { RGB, DropShadowEffect, ParsedElement } from '../types';
+import { RGBA, DropShadowEffect, ParsedElement } from '../types';
+import { ColorParser } from './color-parser';
+import { GradientParser } from './gradient-parser';
+import { FilterProcessor, ColorAdjustment } from './filter-processor';
+import { TransformParser } from './transform-parser';
+import { ImageStore, ImageSize } from './image-store';
+import { DEFAULT_VIEWPORT } from './media-query';
+import { DEFAULT_FONT_SIZE } from './style-computer';
+import { splitValues } from './css-split';
+
+const SIDES = ['top', 'right', 'bottom', 'left'];
+const CORNERS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+const BORDER_WIDTH_KEYWORDS: { [keyword: string]: number } = { thin: 1, medium: 3, thick: 5 };
+
+// CSS <blend-mode> keywords; plus-lighter and plus-darker are Figma's linear dodge and burn
+const BLEND_MODES: { [mode: string]: BlendMode } = {
+  normal: 'NORMAL', multiply: 'MULTIPLY', screen: 'SCREEN', overlay: 'OVERLAY', darken: 'DARKEN',
+  lighten: 'LIGHTEN', 'color-dodge': 'COLOR_DODGE', 'color-burn': 'COLOR_BURN', 'hard-light': 'HARD_LIGHT',
+  'soft-light': 'SOFT_LIGHT', difference: 'DIFFERENCE', exclusion: 'EXCLUSION', hue: 'HUE',
+  saturation: 'SATURATION', color: 'COLOR', luminosity: 'LUMINOSITY',
+  'plus-lighter': 'LINEAR_DODGE', 'plus-darker': 'LINEAR_BURN'
+};
+
+// A number with an optional unit, matched whole so that "rem" is not read as "em"
+const LENGTH = /^(-?(?:\d+\.?\d*|\.\d+))([a-z]*|%)$/i;
+
+// One axis of background-position: an edge (0 start, 0.5 center, 1 end) and the offset from it
+interface PositionAxis {
+  edge: number;
+  offset?: string;
+}
+
+// Border sides drawn in the same color and style; a side another group draws has width 0
+interface BorderGroup {
+  color: RGBA;
+  style: string;
+  widths: number[];
+}
 
 export class StyleProcessor {
+  private colorParser = new ColorParser();
+  private gradientParser = new GradientParser();
+  private filterProcessor = new FilterProcessor();
+  private transformParser = new TransformParser();
+  private warnings: string[] = [];
+
+  constructor(private imageStore: ImageStore) {}
+
+  // Returns the conversion warnings collected so far and starts a new list
+  takeWarnings(): string[] {
+    const warnings = this.warnings;
+    this.warnings = [];
+    return warnings;
+  }
+
+  // Values normally arrive in px from the computed-style pass; other units are converted as a fallback
   parseSize(size: string): number {
     if (!size) return 0;
     
-    const value = parseFloat(size);
-    if (isNaN(value)) return 0;
+    const match = LENGTH.exec(size.trim());
+    if (!match) return 0;
     
-    // Convert different units to pixels
-    if (size.includes('em')) {
-      return value * 16; // 1em = 16px
-    } else if (size.includes('rem')) {
-      return value * 16; // 1rem = 16px
-    } else if (size.includes('%')) {
-      return value; // Keep percentage as-is for now
-    } else if (size.includes('vh')) {
-      return value * 10; // Rough approximation: 1vh ≈ 10px
-    } else if (size.includes('vw')) {
-      return value * 14; // Rough approximation: 1vw ≈ 14px
-    } else if (size.includes('pt')) {
-      return value * 1.33; // 1pt = 1.33px
+    const value = parseFloat(match[1]);
+    switch (match[2].toLowerCase()) {
+      case '':
+      case 'px': return value;
+      case 'em':
+      case 'rem': return value * DEFAULT_FONT_SIZE;
+      case 'vw': return value * DEFAULT_VIEWPORT.width / 100;
+      case 'vh': return value * DEFAULT_VIEWPORT.height / 100;
+      case 'pt': return value * 4 / 3;
+      default: return 0; // Percentages without a containing block and unknown units
     }
-    
-    return value; // Assume pixels or unitless
   }
 
   parseFontSize(fontSize: string): number {
-    if (!fontSize) return 16;
+    if (!fontSize) return DEFAULT_FONT_SIZE;
     
-    const size = parseFloat(fontSize);
-    if (isNaN(size)) {
+    const match = LENGTH.exec(fontSize.trim());
+    if (!match) {
       // Handle named font sizes
       switch (fontSize.toLowerCase()) {
         case 'xx-small': return 9;
@@ -39,255 +88,743 @@ export class StyleProcessor {
         case 'large': return 18;
         case 'x-large': return 24;
         case 'xx-large': return 32;
-        default: return 16;
+        case 'xxx-large': return 48;
+        default: return DEFAULT_FONT_SIZE;
       }
     }
     
-    // Convert units
-    if (fontSize.includes('em')) {
-      return size * 16;
-    } else if (fontSize.includes('rem')) {
-      return size * 16;
-    } else if (fontSize.includes('%')) {
-      return (size / 100) * 16;
-    } else if (fontSize.includes('pt')) {
-      return size * 1.33;
+    // Percentages of a font size refer to the parent's, taken here as the default
+    if (match[2] === '%') {
+      return parseFloat(match[1]) / 100 * DEFAULT_FONT_SIZE;
     }
-    
-    return size;
+    return this.parseSize(fontSize) || DEFAULT_FONT_SIZE;
   }
 
-  parseColor(color: string): RGB | null {
-    if (!color) return null;
-    
-    color = color.trim().toLowerCase();
-    
-    // Handle hex colors
-    if (color.startsWith('#')) {
-      return this.hexToRgb(color);
-    }
-    
-    // Handle rgb/rgba colors
-    if (color.startsWith('rgb')) {
-      const match = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)(?:\s*,\s*[\d.]+)?\s*\)/);
-      if (match) {
-        return {
-          r: parseInt(match[1]) / 255,
-          g: parseInt(match[2]) / 255,
-          b: parseInt(match[3]) / 255
-        };
+  // currentColor resolves to `currentColor`, normally the element's computed color
+  parseColor(color: string, currentColor?: string): RGBA | null {
+    return this.colorParser.parse(color, currentColor);
+  }
+
+  // Figma paints take the color without alpha; the alpha becomes the paint opacity
+  createSolidPaint(color: RGBA): SolidPaint {
+    return { type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a };
+  }
+
+  /**
+   * The background color followed by the `background-image` layers. CSS
+   * lists the top layer first while Figma paints the last fill on top, so
+   * the layers are reversed.
+   */
+  async createBackgroundPaints(element: ParsedElement, width: number, height: number): Promise<Paint[]> {
+    const paints: Paint[] = [];
+
+    const bgColor = element.styles['background-color'];
+    if (bgColor) {
+      const color = this.parseColor(bgColor, element.styles.color);
+      if (color && color.a > 0) {
+        paints.push(this.createSolidPaint(color));
       }
     }
-    
-    // Handle hsl/hsla colors (basic conversion)
-    if (color.startsWith('hsl')) {
-      const match = color.match(/hsla?\(\s*(\d+)\s*,\s*(\d+)%\s*,\s*(\d+)%(?:\s*,\s*[\d.]+)?\s*\)/);
-      if (match) {
-        const h = parseInt(match[1]) / 360;
-        const s = parseInt(match[2]) / 100;
-        const l = parseInt(match[3]) / 100;
-        return this.hslToRgb(h, s, l);
+
+    // Each image layer blends with the layers below it
+    const layers = splitValues(element.styles['background-image'] || '', ',');
+    const blendModes = splitValues(element.styles['background-blend-mode'] || 'normal', ',');
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const paint = this.gradientParser.parse(layers[i], width, height, element.styles.color) ||
+        await this.createImagePaint(layers[i], i, element, width, height);
+      if (paint) {
+        const blendMode = BLEND_MODES[blendModes[i % blendModes.length]];
+        paints.push(blendMode && blendMode !== 'NORMAL' ? Object.assign({}, paint, { blendMode }) : paint);
       }
     }
-    
-    // Handle named colors (expanded set)
-    const namedColors: { [key: string]: string } = {
-      'black': '#000000',
-      'white': '#ffffff',
-      'red': '#ff0000',
-      'green': '#008000',
-      'blue': '#0000ff',
-      'yellow': '#ffff00',
-      'cyan': '#00ffff',
-      'magenta': '#ff00ff',
-      'silver': '#c0c0c0',
-      'gray': '#808080',
-      'grey': '#808080',
-      'maroon': '#800000',
-      'olive': '#808000',
-      'lime': '#00ff00',
-      'aqua': '#00ffff',
-      'teal': '#008080',
-      'navy': '#000080',
-      'fuchsia': '#ff00ff',
-      'purple': '#800080',
-      'orange': '#ffa500',
-      'pink': '#ffc0cb',
-      'brown': '#a52a2a',
-      'darkgray': '#a9a9a9',
-      'darkgrey': '#a9a9a9',
-      'lightgray': '#d3d3d3',
-      'lightgrey': '#d3d3d3',
-      'transparent': '#ffffff'
-    };
-    
-    if (namedColors[color]) {
-      return this.hexToRgb(namedColors[color]);
+
+    return paints;
+  }
+
+  // Sets the background fills for the node's current size; a node without a background keeps its fills
+  async applyBackground(node: SceneNode, element: ParsedElement): Promise<void> {
+    if (!('fills' in node) || !('width' in node)) return;
+    const paints = await this.createBackgroundPaints(element, node.width, node.height);
+    if (paints.length > 0) {
+      node.fills = paints;
     }
-    
-    return null;
   }
 
-  private hexToRgb(hex: string): RGB {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16) / 255,
-      g: parseInt(result[2], 16) / 255,
-      b: parseInt(result[3], 16) / 255
-    } : { r: 0, g: 0, b: 0 };
+  /**
+   * Applies `opacity`, `mix-blend-mode`, `filter` and `backdrop-filter` once
+   * the node and its children exist. Figma blurs take twice the CSS radius.
+   * Color filters have no Figma counterpart; they are approximated by
+   * recoloring the paints of the node and its descendants, with a warning.
+   */
+  applyCompositing(node: SceneNode, element: ParsedElement): void {
+    if (!('effects' in node)) return;
+
+    const styles = element.styles;
+    let opacity = styles.opacity !== undefined ? this.parseOpacity(styles.opacity) : 1;
+    const effects: Effect[] = [];
+    const adjustments: ColorAdjustment[] = [];
+
+    const filters = styles.filter ? this.filterProcessor.parse(styles.filter) : [];
+    if (!filters) {
+      this.warn(`不支持的filter: ${styles.filter}，已忽略`);
+    }
+    for (const filter of filters || []) {
+      if (filter.name === 'blur') {
+        effects.push({ type: 'LAYER_BLUR', blurType: 'NORMAL', radius: this.parseSize(filter.args) * 2, visible: true });
+      } else if (filter.name === 'drop-shadow') {
+        // drop-shadow() takes the same values as a single text shadow
+        const shadows = this.parseTextShadow(filter.args, styles.color);
+        if (shadows.length === 1) effects.push(shadows[0]);
+      } else if (filter.name === 'opacity') {
+        opacity *= this.filterProcessor.parseAmount(filter) || 0;
+      } else {
+        const adjustment = this.filterProcessor.createColorAdjustment(filter);
+        if (adjustment) {
+          adjustments.push(adjustment);
+          this.warn(`filter: ${filter.name}() 在Figma中没有对应效果，已按颜色近似处理`);
+        } else {
+          this.warn(`不支持的filter函数: ${filter.name}()，已忽略`);
+        }
+      }
+    }
+
+    const backdropFilter = styles['backdrop-filter'] || styles['-webkit-backdrop-filter'];
+    for (const filter of (backdropFilter && this.filterProcessor.parse(backdropFilter)) || []) {
+      if (filter.name === 'blur') {
+        effects.push({ type: 'BACKGROUND_BLUR', blurType: 'NORMAL', radius: this.parseSize(filter.args) * 2, visible: true });
+      } else {
+        this.warn(`backdrop-filter: ${filter.name}() 不受支持，已忽略`);
+      }
+    }
+
+    if (opacity < 1) {
+      node.opacity = Math.max(0, opacity);
+    }
+    const blendMode = BLEND_MODES[styles['mix-blend-mode']];
+    if (blendMode && blendMode !== 'NORMAL') {
+      node.blendMode = blendMode;
+    }
+    if (effects.length > 0) {
+      node.effects = node.effects.concat(effects);
+    }
+    if (adjustments.length > 0) {
+      this.adjustPaints(node, color => adjustments.reduce((adjusted, adjust) => adjust(adjusted), color));
+    }
   }
 
-  private hslToRgb(h: number, s: number, l: number): RGB {
-    let r, g, b;
+  /**
+   * Applies the CSS transform of an element to its node, which must still be
+   * at its untransformed position. Rotation and flips go into
+   * `relativeTransform`; Figma keeps scale out of transforms, so scaling
+   * resizes the node instead. Skew cannot be represented and is dropped.
+   */
+  applyTransform(node: SceneNode, element: ParsedElement): void {
+    if (!('rescale' in node) || !('resize' in node)) return;
 
-    if (s === 0) {
-      r = g = b = l; // achromatic
-    } else {
-      const hue2rgb = (p: number, q: number, t: number) => {
-        if (t < 0) t += 1;
-        if (t > 1) t -= 1;
-        if (t < 1/6) return p + (q - p) * 6 * t;
-        if (t < 1/2) return q;
-        if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-        return p;
-      };
-
-      const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-      const p = 2 * l - q;
-      r = hue2rgb(p, q, h + 1/3);
-      g = hue2rgb(p, q, h);
-      b = hue2rgb(p, q, h - 1/3);
+    const ignored: string[] = [];
+    const matrix = this.transformParser.parse(element.styles, node.width, node.height, ignored);
+    ignored.forEach(name => this.warn(`transform: ${name} 是3D变换，已忽略`));
+    if (!matrix) return;
+
+    // Decompose the linear part into rotation · flip · skew · scale
+    const [a, b, c, d, e, f] = matrix;
+    const scaleX = Math.sqrt(a * a + b * b);
+    const cos = scaleX > 0 ? a / scaleX : 1;
+    const sin = scaleX > 0 ? b / scaleX : 0;
+    const scaleY = -sin * c + cos * d;
+    if (scaleX < 1e-6 || Math.abs(scaleY) < 1e-6) {
+      // scale(0) and the like leave nothing to see
+      node.visible = false;
+      return;
+    }
+    if (Math.abs((cos * c + sin * d) / scaleY) > 1e-3) {
+      this.warn('transform: skew() 在Figma中无法表示，已忽略倾斜');
     }
 
-    return {
-      r: Math.round(r * 255) / 255,
-      g: Math.round(g * 255) / 255,
-      b: Math.round(b * 255) / 255
-    };
+    const flip = scaleY < 0 ? -1 : 1;
+    const x = node.x;
+    const y = node.y;
+    if (Math.abs(scaleX - 1) > 1e-6 || Math.abs(scaleY * flip - 1) > 1e-6) {
+      this.applyScale(node, scaleX, scaleY * flip);
+    }
+
+    node.relativeTransform = [
+      [cos, -sin * flip, x + e],
+      [sin, cos * flip, y + f]
+    ];
   }
 
-  parseBoxShadow(boxShadow: string): DropShadowEffect | null {
-    // Basic box-shadow parsing: "0 2px 10px rgba(0,0,0,0.1)"
-    const match = boxShadow.match(/(\d+)px\s+(\d+)px\s+(\d+)px\s+(.+)/);
-    if (match) {
-      const offsetX = parseInt(match[1]);
-      const offsetY = parseInt(match[2]);
-      const blur = parseInt(match[3]);
-      const color = this.parseColor(match[4]);
-      
-      if (color) {
-        return {
-          type: 'DROP_SHADOW',
-          color: { r: color.r, g: color.g, b: color.b, a: 0.1 }, // Default alpha
-          offset: { x: offsetX, y: offsetY },
-          radius: blur,
-          visible: true,
-          blendMode: 'NORMAL'
-        };
+  // Uniform scales rescale the whole subtree; other scales only resize, which is lossless for leaf shapes
+  private applyScale(
+    node: SceneNode & { rescale(scale: number): void; resize(width: number, height: number): void },
+    scaleX: number,
+    scaleY: number
+  ): void {
+    if (Math.abs(scaleX - scaleY) < 1e-6) {
+      node.rescale(scaleX);
+      return;
+    }
+    if ('children' in node || node.type === 'TEXT') {
+      this.warn('transform: 非等比缩放只调整了图层尺寸，内容未缩放');
+    }
+    node.resize(Math.max(0.01, node.width * scaleX), Math.max(0.01, node.height * scaleY));
+  }
+
+  /**
+   * Parses a `box-shadow` list into Figma effects. CSS paints the first
+   * shadow on top and Figma the last, so the order is reversed. An invalid
+   * shadow anywhere in the list invalidates the whole declaration.
+   */
+  parseBoxShadow(boxShadow: string, currentColor?: string): DropShadowEffect[] {
+    return this.parseShadowList(boxShadow, currentColor, true);
+  }
+
+  // `text-shadow` takes neither `inset` nor a spread radius
+  parseTextShadow(textShadow: string, currentColor?: string): DropShadowEffect[] {
+    return this.parseShadowList(textShadow, currentColor, false);
+  }
+
+  private parseShadowList(value: string, currentColor: string | undefined, isBoxShadow: boolean): DropShadowEffect[] {
+    if (!value || value.trim().toLowerCase() === 'none') return [];
+
+    const shadows: DropShadowEffect[] = [];
+    for (const layer of splitValues(value, ',')) {
+      const shadow = this.parseShadow(layer, currentColor, isBoxShadow);
+      if (!shadow) return [];
+      shadows.unshift(shadow);
+    }
+    return shadows;
+  }
+
+  // <color>? && [<offset-x> <offset-y> <blur>? <spread>?] && inset?, in any order
+  private parseShadow(layer: string, currentColor: string | undefined, isBoxShadow: boolean): DropShadowEffect | null {
+    const lengths: number[] = [];
+    let colorValue: string | null = null;
+    let inset = false;
+    let lengthsClosed = false;
+
+    for (const token of splitValues(layer, ' ')) {
+      const length = LENGTH.exec(token);
+      if (length && (length[2] === '' ? parseFloat(length[1]) === 0 : length[2] !== '%')) {
+        // The lengths must be written together
+        if (lengthsClosed) return null;
+        lengths.push(this.parseSize(token));
+        continue;
+      }
+
+      lengthsClosed = lengths.length > 0;
+      if (isBoxShadow && token.toLowerCase() === 'inset' && !inset) {
+        inset = true;
+      } else if (colorValue === null) {
+        colorValue = token;
+      } else {
+        return null;
       }
     }
-    
-    return null;
+
+    const maxLengths = isBoxShadow ? 4 : 3;
+    if (lengths.length < 2 || lengths.length > maxLengths || (lengths.length > 2 && lengths[2] < 0)) return null;
+
+    // Without a color the shadow takes the text color
+    const color = this.parseColor(colorValue || 'currentcolor', currentColor || '#000000');
+    if (!color) return null;
+
+    return {
+      type: inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+      color,
+      offset: { x: lengths[0], y: lengths[1] },
+      radius: lengths[2] || 0,
+      spread: lengths[3] || 0,
+      visible: true,
+      blendMode: 'NORMAL'
+    };
   }
 
-  applyBasicStyles(node: SceneNode, element: ParsedElement): void {
+  async applyBasicStyles(node: SceneNode, element: ParsedElement): Promise<void> {
     // Apply width and height if specified
     if (node.type === 'FRAME' || node.type === 'RECTANGLE') {
       const frameNode = node as FrameNode | RectangleNode;
-      
-      // Apply width with better handling
-      if (element.styles.width) {
-        const width = this.parseSize(element.styles.width);
-        if (width > 0) {
-          frameNode.resize(width, frameNode.height);
-        }
-      } else if (element.styles['max-width']) {
-        const maxWidth = this.parseSize(element.styles['max-width']);
-        if (maxWidth > 0 && frameNode.width > maxWidth) {
-          frameNode.resize(maxWidth, frameNode.height);
+      const box = element.box;
+
+      // The frame is the border box; sizes that depend on content are settled by whoever fills the frame
+      if (box) {
+        if (box.width !== null || box.height !== null) {
+          frameNode.resize(Math.max(box.width !== null ? box.width : frameNode.width, 0.01),
+            Math.max(box.height !== null ? box.height : frameNode.height, 0.01));
         }
+      } else {
+        this.applySpecifiedSize(frameNode, element);
       }
       
-      // Apply height with better handling
-      if (element.styles.height) {
-        const height = this.parseSize(element.styles.height);
-        if (height > 0) {
-          frameNode.resize(frameNode.width, height);
-        }
-      } else if (element.styles['min-height']) {
-        const minHeight = this.parseSize(element.styles['min-height']);
-        if (minHeight > 0 && frameNode.height < minHeight) {
-          frameNode.resize(frameNode.width, minHeight);
-        }
-      }
+      // Apply background color, gradient and image layers
+      await this.applyBackground(frameNode, element);
       
-      // Apply background color with gradient support
-      if (element.styles['background-color'] || element.styles.background) {
-        const bgColor = element.styles['background-color'] || element.styles.background;
-        const color = this.parseColor(bgColor);
-        if (color) {
-          frameNode.fills = [{ type: 'SOLID', color }];
+      // Apply border radius with individual corners
+      this.applyCornerRadius(frameNode, element);
+
+      // Apply borders
+      const hasBorder = this.applyBorders(frameNode, element);
+
+      // Apply box shadow
+      const effects = element.styles['box-shadow']
+        ? this.parseBoxShadow(element.styles['box-shadow'], element.styles.color)
+        : [];
+
+      // Apply outline: an outside stroke when the border leaves the stroke free, otherwise a spread shadow
+      const outline = this.getOutline(element);
+      if (outline) {
+        if (!hasBorder && outline.offset === 0) {
+          frameNode.strokes = [this.createSolidPaint(outline.color)];
+          frameNode.strokeWeight = outline.width;
+          frameNode.strokeAlign = 'OUTSIDE';
+          frameNode.dashPattern = this.getDashPattern(outline.style, outline.width);
+        } else {
+          effects.push({
+            type: 'DROP_SHADOW',
+            color: outline.color,
+            offset: { x: 0, y: 0 },
+            radius: 0,
+            spread: Math.max(0, outline.offset) + outline.width,
+            visible: true,
+            blendMode: 'NORMAL'
+          });
         }
       }
-      
-      // Apply border radius with individual corners
+
+      if (effects.length > 0) {
+        frameNode.effects = effects;
+      }
+
       if (frameNode.type === 'FRAME') {
         const frame = frameNode as FrameNode;
-        
-        if (element.styles['border-radius']) {
-          const radius = this.parseSize(element.styles['border-radius']);
-          if (radius >= 0) {
-            frame.cornerRadius = radius;
-          }
+
+        // Apply padding; the border lies inside a border-box frame, so content starts past it too
+        if (box) {
+          frame.paddingTop = box.padding.top + box.border.top;
+          frame.paddingRight = box.padding.right + box.border.right;
+          frame.paddingBottom = box.padding.bottom + box.border.bottom;
+          frame.paddingLeft = box.padding.left + box.border.left;
         } else {
-          // Apply individual corner radii
-          if (element.styles['border-top-left-radius']) {
-            frame.topLeftRadius = this.parseSize(element.styles['border-top-left-radius']);
-          }
-          if (element.styles['border-top-right-radius']) {
-            frame.topRightRadius = this.parseSize(element.styles['border-top-right-radius']);
-          }
-          if (element.styles['border-bottom-left-radius']) {
-            frame.bottomLeftRadius = this.parseSize(element.styles['border-bottom-left-radius']);
-          }
-          if (element.styles['border-bottom-right-radius']) {
-            frame.bottomRightRadius = this.parseSize(element.styles['border-bottom-right-radius']);
-          }
+          frame.paddingTop = this.parseSize(element.styles['padding-top'] || '0');
+          frame.paddingRight = this.parseSize(element.styles['padding-right'] || '0');
+          frame.paddingBottom = this.parseSize(element.styles['padding-bottom'] || '0');
+          frame.paddingLeft = this.parseSize(element.styles['padding-left'] || '0');
         }
-        
-        // Apply borders
-        if (element.styles.border || element.styles['border-width']) {
-          const borderWidth = this.parseSize(element.styles['border-width'] || element.styles.border || '1');
-          const borderColor = this.parseColor(element.styles['border-color'] || '#ddd');
-          
-          if (borderWidth > 0 && borderColor) {
-            frame.strokes = [{ type: 'SOLID', color: borderColor }];
-            frame.strokeWeight = borderWidth;
-          }
-        }
-        
-        // Apply box shadow
-        if (element.styles['box-shadow']) {
-          const shadow = this.parseBoxShadow(element.styles['box-shadow']);
-          if (shadow) {
-            frame.effects = [shadow];
-          }
-        }
-        
-        // Apply padding with better defaults
-        const defaultPadding = 0;
-        
-        if (element.styles.padding) {
-          const padding = this.parseSize(element.styles.padding);
-          frame.paddingTop = frame.paddingRight = frame.paddingBottom = frame.paddingLeft = padding >= 0 ? padding : defaultPadding;
-        } else {
-          // Apply individual paddings
-          frame.paddingTop = element.styles['padding-top'] ? this.parseSize(element.styles['padding-top']) : defaultPadding;
-          frame.paddingRight = element.styles['padding-right'] ? this.parseSize(element.styles['padding-right']) : defaultPadding;
-          frame.paddingBottom = element.styles['padding-bottom'] ? this.parseSize(element.styles['padding-bottom']) : defaultPadding;
-          frame.paddingLeft = element.styles['padding-left'] ? this.parseSize(element.styles['padding-left']) : defaultPadding;
+      }
+    }
+  }
+
+  /**
+   * Sets the corner radii against the node's current size, which percentages
+   * refer to. Figma corners are circular, so an elliptical corner takes the
+   * smaller of its two radii.
+   */
+  applyCornerRadius(node: FrameNode | RectangleNode, element: ParsedElement): void {
+    const radii = CORNERS.map(corner => {
+      const parts = splitValues(element.styles[`border-${corner}-radius`] || '0', ' ');
+      const horizontal = this.parseRadius(parts[0], node.width);
+      const vertical = this.parseRadius(parts.length > 1 ? parts[1] : parts[0], node.height);
+      if (Math.abs(horizontal - vertical) > 0.5) {
+        this.warn('Figma 不支持椭圆圆角，已取水平和垂直半径中较小的一个');
+      }
+      return Math.min(horizontal, vertical);
+    });
+
+    if (radii.every(radius => radius === radii[0])) {
+      node.cornerRadius = radii[0];
+    } else {
+      node.topLeftRadius = radii[0];
+      node.topRightRadius = radii[1];
+      node.bottomRightRadius = radii[2];
+      node.bottomLeftRadius = radii[3];
+    }
+  }
+
+  // A radius percentage refers to the border box along its own axis
+  private parseRadius(value: string | undefined, basis: number): number {
+    if (!value) return 0;
+    return Math.max(0, value.slice(-1) === '%' ? parseFloat(value) / 100 * basis : this.parseSize(value));
+  }
+
+  // Sizes from the styles alone, for elements that have not been laid out
+  private applySpecifiedSize(frameNode: FrameNode | RectangleNode, element: ParsedElement): void {
+    // Apply width with better handling
+    if (element.styles.width) {
+      const width = this.parseSize(element.styles.width);
+      if (width > 0) {
+        frameNode.resize(width, frameNode.height);
+      }
+    } else if (element.styles['max-width']) {
+      const maxWidth = this.parseSize(element.styles['max-width']);
+      if (maxWidth > 0 && frameNode.width > maxWidth) {
+        frameNode.resize(maxWidth, frameNode.height);
+      }
+    }
+    
+    // Apply height with better handling
+    if (element.styles.height) {
+      const height = this.parseSize(element.styles.height);
+      if (height > 0) {
+        frameNode.resize(frameNode.width, height);
+      }
+    } else if (element.styles['min-height']) {
+      const minHeight = this.parseSize(element.styles['min-height']);
+      if (minHeight > 0 && frameNode.height < minHeight) {
+        frameNode.resize(frameNode.width, minHeight);
+      }
+    }
+  }
+
+  /**
+   * Maps the borders to the frame's stroke. Each side gets its own stroke
+   * weight, but a frame has a single stroke paint and dash pattern, so the
+   * stroke draws the sides that share the widest side's color and style;
+   * applyBorderLayers adds the others. A rectangle has no children to draw
+   * them with. Returns whether a stroke was drawn.
+   */
+  private applyBorders(node: FrameNode | RectangleNode, element: ParsedElement): boolean {
+    const groups = this.getBorderGroups(element);
+    if (groups.length === 0) {
+      node.strokes = [];
+      return false;
+    }
+
+    this.applyBorderGroup(node, groups[0], element);
+    if (node.type === 'RECTANGLE' && groups.length > 1) {
+      this.warn('图片各边的边框颜色或样式不同，已统一使用最宽一边的');
+    }
+    return true;
+  }
+
+  /**
+   * Draws the border sides whose color or style differs from the frame's
+   * stroke as overlays the size of the frame, each stroked on its own sides
+   * only. Runs once the frame has its layout, which the overlays stay out of.
+   */
+  applyBorderLayers(frame: FrameNode, element: ParsedElement): void {
+    for (const group of this.getBorderGroups(element).slice(1)) {
+      const layer = figma.createRectangle();
+      layer.name = 'Border';
+      layer.fills = [];
+      layer.resize(Math.max(frame.width, 0.01), Math.max(frame.height, 0.01));
+      this.applyBorderGroup(layer, group, element);
+      if (frame.cornerRadius !== figma.mixed) {
+        layer.cornerRadius = frame.cornerRadius;
+      } else {
+        layer.topLeftRadius = frame.topLeftRadius;
+        layer.topRightRadius = frame.topRightRadius;
+        layer.bottomRightRadius = frame.bottomRightRadius;
+        layer.bottomLeftRadius = frame.bottomLeftRadius;
+      }
+
+      frame.appendChild(layer);
+      if (frame.layoutMode !== 'NONE') layer.layoutPositioning = 'ABSOLUTE';
+      layer.x = 0;
+      layer.y = 0;
+      layer.constraints = { horizontal: 'STRETCH', vertical: 'STRETCH' };
+    }
+  }
+
+  private applyBorderGroup(node: FrameNode | RectangleNode, group: BorderGroup, element: ParsedElement): void {
+    const widths = group.widths;
+    node.strokes = [this.createSolidPaint(group.color)];
+    if (widths.every(width => width === widths[0])) {
+      node.strokeWeight = widths[0];
+    } else {
+      node.strokeTopWeight = widths[0];
+      node.strokeRightWeight = widths[1];
+      node.strokeBottomWeight = widths[2];
+      node.strokeLeftWeight = widths[3];
+    }
+
+    // When the frame is the border box, which it is once laid out, the border lies inside it
+    node.strokeAlign = element.box || element.styles['box-sizing'] === 'border-box' ? 'INSIDE' : 'OUTSIDE';
+    node.dashPattern = this.getDashPattern(group.style, Math.max(...widths));
+  }
+
+  // The drawn sides grouped by color and style, the group with the widest side first
+  private getBorderGroups(element: ParsedElement): BorderGroup[] {
+    const groups: BorderGroup[] = [];
+    SIDES.forEach((side, index) => {
+      const border = this.getBorder(element, side);
+      const color = border.width > 0 ? this.parseColor(border.color, element.styles.color) : null;
+      if (!color) return;
+
+      let group = groups.filter(candidate => candidate.style === border.style &&
+        candidate.color.r === color.r && candidate.color.g === color.g &&
+        candidate.color.b === color.b && candidate.color.a === color.a)[0];
+      if (!group) {
+        group = { color, style: border.style, widths: [0, 0, 0, 0] };
+        groups.push(group);
+      }
+      group.widths[index] = border.width;
+    });
+    return groups.sort((a, b) => Math.max(...b.widths) - Math.max(...a.widths));
+  }
+
+  // A side that is not drawn has width 0
+  private getBorder(element: ParsedElement, side: string): { width: number; style: string; color: string } {
+    const style = element.styles[`border-${side}-style`] || 'none';
+    const color = element.styles[`border-${side}-color`] || 'currentcolor';
+    if (style === 'none' || style === 'hidden') return { width: 0, style, color };
+
+    return { width: this.parseLineWidth(element.styles[`border-${side}-width`]), style, color };
+  }
+
+  private getOutline(element: ParsedElement): { width: number; style: string; color: RGBA; offset: number } | null {
+    const style = element.styles['outline-style'] || 'none';
+    if (style === 'none' || style === 'hidden') return null;
+
+    const width = this.parseLineWidth(element.styles['outline-width']);
+    // `auto` and `invert` fall back to the text color
+    const colorValue = element.styles['outline-color'];
+    const color = this.parseColor(colorValue && colorValue !== 'auto' && colorValue !== 'invert' ? colorValue : 'currentcolor',
+      element.styles.color || '#000000');
+    if (width <= 0 || !color) return null;
+
+    return { width, style, color, offset: this.parseSize(element.styles['outline-offset'] || '0') };
+  }
+
+  private parseLineWidth(value: string | undefined): number {
+    const width = value || 'medium';
+    return BORDER_WIDTH_KEYWORDS[width] !== undefined ? BORDER_WIDTH_KEYWORDS[width] : this.parseSize(width);
+  }
+
+  // Dashes and gaps scale with the line width, as browsers draw them; other styles are drawn solid
+  private getDashPattern(style: string, width: number): number[] {
+    switch (style) {
+      case 'dashed': return [width * 3, width * 3];
+      case 'dotted': return [width, width];
+      default: return [];
+    }
+  }
+
+  private parseOpacity(value: string): number {
+    const opacity = parseFloat(value) / (value.trim().slice(-1) === '%' ? 100 : 1);
+    return isNaN(opacity) ? 1 : Math.max(0, Math.min(1, opacity));
+  }
+
+  private adjustPaints(node: SceneNode, adjust: ColorAdjustment): void {
+    if ('fills' in node) {
+      if (node.fills !== figma.mixed) {
+        node.fills = (node.fills as ReadonlyArray<Paint>).map(paint => this.adjustPaint(paint, adjust));
+      } else if (node.type === 'TEXT') {
+        for (const segment of node.getStyledTextSegments(['fills'])) {
+          node.setRangeFills(segment.start, segment.end, segment.fills.map(paint => this.adjustPaint(paint, adjust)));
         }
       }
     }
+    if ('strokes' in node) {
+      node.strokes = node.strokes.map(paint => this.adjustPaint(paint, adjust));
+    }
+    if ('children' in node) {
+      for (const child of node.children) {
+        this.adjustPaints(child, adjust);
+      }
+    }
+  }
+
+  private adjustPaint(paint: Paint, adjust: ColorAdjustment): Paint {
+    if (paint.type === 'SOLID') {
+      const color = adjust({ r: paint.color.r, g: paint.color.g, b: paint.color.b, a: paint.opacity !== undefined ? paint.opacity : 1 });
+      return Object.assign({}, paint, { color: { r: color.r, g: color.g, b: color.b }, opacity: color.a });
+    }
+    if (paint.type === 'GRADIENT_LINEAR' || paint.type === 'GRADIENT_RADIAL' || paint.type === 'GRADIENT_ANGULAR' || paint.type === 'GRADIENT_DIAMOND') {
+      return Object.assign({}, paint, {
+        gradientStops: paint.gradientStops.map(stop => ({ position: stop.position, color: adjust(stop.color) }))
+      });
+    }
+    return paint;
+  }
+
+  /**
+   * An image layer of `background-image`. Figma has no background
+   * positioning area, so the layer is mapped to a scale mode: `cover` to
+   * FILL, `contain` to FIT, repeating layers to TILE, and anything else to a
+   * CROP transform that puts the image at its CSS size and position.
+   */
+  private async createImagePaint(
+    layer: string,
+    index: number,
+    element: ParsedElement,
+    width: number,
+    height: number
+  ): Promise<ImagePaint | null> {
+    const url = /^url\(\s*(['"]?)(.*?)\1\s*\)$/i.exec(layer.trim());
+    if (!url) return null;
+
+    const image = this.resolveImage(url[2]);
+    if (!image) return null;
+
+    // Layer lists shorter than background-image repeat
+    const layerValue = (property: string, initial: string): string => {
+      const values = splitValues(element.styles[property] || initial, ',');
+      return values[index % values.length].toLowerCase();
+    };
+    const size = layerValue('background-size', 'auto');
+    const repeat = layerValue('background-repeat', 'repeat');
+    const position = this.parsePosition(layerValue('background-position', '0% 0%'));
+
+    if (size === 'contain') {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'FIT' };
+    }
+    if (size === 'cover' && this.isCentered(position)) {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'FILL' };
+    }
+
+    const natural = await this.imageStore.getSize(image);
+    const rendered = this.getBackgroundSize(size, natural, width, height);
+    if (rendered.width <= 0 || rendered.height <= 0) return null;
+
+    // A covering image leaves nothing to repeat into
+    if (size !== 'cover' && repeat !== 'no-repeat' && repeat !== 'no-repeat no-repeat') {
+      // Tiles start at the top left corner of the node; a position offset is lost
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'TILE', scalingFactor: rendered.width / natural.width };
+    }
+
+    return this.placeImage(image, rendered, position, width, height);
+  }
+
+  /**
+   * The fill of a replaced element such as `<img>`, sized by `object-fit`
+   * and placed by `object-position`. The default `fill` stretches the image
+   * over the box.
+   */
+  async createObjectFitPaint(image: Image, element: ParsedElement, width: number, height: number): Promise<ImagePaint> {
+    const fit = (element.styles['object-fit'] || 'fill').trim().toLowerCase();
+    const position = this.parsePosition((element.styles['object-position'] || '50% 50%').trim().toLowerCase());
+
+    if (fit === 'cover' && this.isCentered(position)) {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'FILL' };
+    }
+    if (fit === 'contain' && this.isCentered(position)) {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'FIT' };
+    }
+
+    const natural = await this.imageStore.getSize(image);
+    const contain = Math.min(width / natural.width, height / natural.height);
+    let scale: number;
+    switch (fit) {
+      case 'contain': scale = contain; break;
+      case 'cover': scale = Math.max(width / natural.width, height / natural.height); break;
+      case 'none': scale = 1; break;
+      case 'scale-down': scale = Math.min(1, contain); break;
+      default:
+        return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'CROP', imageTransform: [[1, 0, 0], [0, 1, 0]] };
+    }
+
+    return this.placeImage(image, { width: natural.width * scale, height: natural.height * scale }, position, width, height);
+  }
+
+  // The image behind an `src` or `url()`, with a warning when it is missing
+  resolveImage(url: string): Image | null {
+    const image = this.imageStore.getImage(url);
+    if (!image) {
+      const name = url.indexOf('data:') === 0 ? url.slice(0, 30) + '…' : url;
+      this.warn(`图片未找到或格式不支持: ${name}（请将图片文件与HTML一起拖入）`);
+    }
+    return image;
+  }
+
+  // A CROP transform that draws the image at the given size and position; it maps the node's unit square into the image's
+  private placeImage(
+    image: Image,
+    rendered: ImageSize,
+    position: { x: PositionAxis; y: PositionAxis },
+    width: number,
+    height: number
+  ): ImagePaint {
+    const x = this.resolvePositionAxis(position.x, width - rendered.width);
+    const y = this.resolvePositionAxis(position.y, height - rendered.height);
+    return {
+      type: 'IMAGE',
+      imageHash: image.hash,
+      scaleMode: 'CROP',
+      imageTransform: [
+        [width / rendered.width, 0, -x / rendered.width],
+        [0, height / rendered.height, -y / rendered.height]
+      ]
+    };
+  }
+
+  private isCentered(position: { x: PositionAxis; y: PositionAxis }): boolean {
+    const isCenteredAxis = (axis: PositionAxis) => axis.edge === 0.5 ? !axis.offset : axis.offset === '50%';
+    return isCenteredAxis(position.x) && isCenteredAxis(position.y);
+  }
+
+  // background-size: cover, or one or two of lengths, percentages of the node size and auto
+  private getBackgroundSize(value: string, natural: ImageSize, width: number, height: number): ImageSize {
+    if (value === 'cover') {
+      const scale = Math.max(width / natural.width, height / natural.height);
+      return { width: natural.width * scale, height: natural.height * scale };
+    }
+
+    const tokens = value.split(/\s+/);
+    const parse = (token: string | undefined, basis: number): number | null => {
+      if (!token || token === 'auto') return null;
+      return token.slice(-1) === '%' ? parseFloat(token) / 100 * basis : this.parseSize(token);
+    };
+    const w = parse(tokens[0], width);
+    const h = parse(tokens[1], height);
+
+    // An auto side keeps the image's aspect ratio
+    if (w !== null && h !== null) return { width: w, height: h };
+    if (w !== null) return { width: w, height: w * natural.height / natural.width };
+    if (h !== null) return { width: h * natural.width / natural.height, height: h };
+    return natural;
+  }
+
+  /**
+   * A <position> as in background-position and object-position, in its
+   * one- to four-value forms. Each axis is an edge (0 = left/top, 0.5 =
+   * center, 1 = right/bottom) and an offset from that edge, which may be a
+   * percentage of the free space.
+   */
+  private parsePosition(value: string): { x: PositionAxis; y: PositionAxis } {
+    const horizontal: { [keyword: string]: number } = { left: 0, right: 1 };
+    const vertical: { [keyword: string]: number } = { top: 0, bottom: 1 };
+    const tokens = value.split(/\s+/);
+    let x: PositionAxis | null = null;
+    let y: PositionAxis | null = null;
+    const unassigned: PositionAxis[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      // In the three- and four-value forms an edge keyword may be followed by its offset
+      const next = tokens.length > 2 && tokens[i + 1] && LENGTH.test(tokens[i + 1]) ? tokens[i + 1] : undefined;
+
+      if (horizontal[token] !== undefined) {
+        x = { edge: horizontal[token], offset: next };
+        if (next) i++;
+      } else if (vertical[token] !== undefined) {
+        y = { edge: vertical[token], offset: next };
+        if (next) i++;
+      } else if (token === 'center') {
+        unassigned.push({ edge: 0.5 });
+      } else {
+        unassigned.push({ edge: 0, offset: token });
+      }
+    }
+
+    // Centers and bare offsets fill the horizontal axis first; an axis left out is centered
+    for (const axis of unassigned) {
+      if (!x) x = axis;
+      else if (!y) y = axis;
+    }
+    return { x: x || { edge: 0.5 }, y: y || { edge: 0.5 } };
+  }
+
+  // The image offset within the node, given the space the image leaves free along the axis
+  private resolvePositionAxis(axis: PositionAxis, free: number): number {
+    if (!axis.offset) return axis.edge * free;
+    const offset = axis.offset.slice(-1) === '%' ? parseFloat(axis.offset) / 100 * free : this.parseSize(axis.offset);
+    return axis.edge === 1 ? free - offset : offset;
+  }
+
+  // Records a note about CSS that could only be approximated; each note is kept once
+  warn(message: string): void {
+    if (this.warnings.indexOf(message) === -1) {
+      this.warnings.push(message);
+    }
   }
 }
@@ -0,0 +1,218 @@
+import { ParsedElement, isTextNodeData } from '../types';
+
+// SVG names are case-sensitive but the HTML parser lowercases them; these are restored as in the HTML spec
+const SVG_TAG_NAMES = [
+  'altGlyph', 'altGlyphDef', 'altGlyphItem', 'animateColor', 'animateMotion', 'animateTransform', 'clipPath',
+  'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix', 'feDiffuseLighting',
+  'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood', 'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR',
+  'feGaussianBlur', 'feImage', 'feMerge', 'feMergeNode', 'feMorphology', 'feOffset', 'fePointLight',
+  'feSpecularLighting', 'feSpotLight', 'feTile', 'feTurbulence', 'foreignObject', 'glyphRef', 'linearGradient',
+  'radialGradient', 'textPath'
+];
+
+const SVG_ATTRIBUTE_NAMES = [
+  'attributeName', 'attributeType', 'baseFrequency', 'baseProfile', 'calcMode', 'clipPathUnits',
+  'diffuseConstant', 'edgeMode', 'filterUnits', 'glyphRef', 'gradientTransform', 'gradientUnits', 'kernelMatrix',
+  'kernelUnitLength', 'keyPoints', 'keySplines', 'keyTimes', 'lengthAdjust', 'limitingConeAngle', 'markerHeight',
+  'markerUnits', 'markerWidth', 'maskContentUnits', 'maskUnits', 'numOctaves', 'pathLength',
+  'patternContentUnits', 'patternTransform', 'patternUnits', 'pointsAtX', 'pointsAtY', 'pointsAtZ',
+  'preserveAlpha', 'preserveAspectRatio', 'primitiveUnits', 'refX', 'refY', 'repeatCount', 'repeatDur',
+  'requiredExtensions', 'requiredFeatures', 'specularConstant', 'specularExponent', 'spreadMethod',
+  'startOffset', 'stdDeviation', 'stitchTiles', 'surfaceScale', 'systemLanguage', 'tableValues', 'targetX',
+  'targetY', 'textLength', 'viewBox', 'viewTarget', 'xChannelSelector', 'yChannelSelector', 'zoomAndPan'
+];
+
+// Inherited properties written out on every element, so the result does not depend on CSS
+const INHERITED_PAINT_PROPERTIES = [
+  'clip-rule', 'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-dasharray', 'stroke-dashoffset',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-opacity', 'stroke-width'
+];
+
+const OWN_PAINT_PROPERTIES = ['stop-color', 'stop-opacity'];
+
+// Attributes the cascade has already taken into account
+const DROPPED_ATTRIBUTES = ['class', 'style'];
+
+const DROPPED_ELEMENTS = ['style', 'script'];
+
+function caseTable(names: string[]): { [lowercase: string]: string } {
+  const table: { [lowercase: string]: string } = {};
+  for (const name of names) {
+    table[name.toLowerCase()] = name;
+  }
+  return table;
+}
+
+const TAG_CASES = caseTable(SVG_TAG_NAMES);
+const ATTRIBUTE_CASES = caseTable(SVG_ATTRIBUTE_NAMES);
+
+interface IndexedElement {
+  element: ParsedElement;
+  parentStyles: { [property: string]: string };
+}
+
+/**
+ * Turns an inline `<svg>` subtree back into markup for
+ * `figma.createNodeFromSvg`. The computed fill and stroke properties are
+ * written onto every element, with `currentColor` resolved, so that CSS
+ * rules and inheritance survive. `<use>` references are replaced by a copy
+ * of the element they point to, which may live anywhere in the document,
+ * e.g. in a hidden sprite sheet.
+ */
+export class SvgSerializer {
+  private elementsById: { [id: string]: IndexedElement } = {};
+
+  // Elements that `<use href="#id">` can refer to
+  setDocument(elements: ParsedElement[]): void {
+    this.elementsById = {};
+    const visit = (element: ParsedElement, parentStyles: { [property: string]: string }) => {
+      const id = element.attributes.id;
+      if (id && !this.elementsById[id]) {
+        this.elementsById[id] = { element, parentStyles };
+      }
+      for (const child of element.children) {
+        visit(child, element.styles);
+      }
+    };
+    for (const element of elements) {
+      visit(element, {});
+    }
+  }
+
+  serialize(svg: ParsedElement): string {
+    const attributes: { [name: string]: string } = {
+      xmlns: 'http://www.w3.org/2000/svg',
+      'xmlns:xlink': 'http://www.w3.org/1999/xlink'
+    };
+    const markup = this.serializeElement(svg, {}, {}, [], attributes);
+
+    // Gradients, patterns and filters defined in another <svg> of the page are copied in
+    const defs = this.findReferences(markup)
+      .filter(id => markup.indexOf(` id="${id}"`) === -1 && this.elementsById[id])
+      .map(id => this.serializeElement(this.elementsById[id].element, {}, this.elementsById[id].parentStyles, []))
+      .join('');
+    return defs ? markup.replace(/^(<svg[^>]*?)(\/?)>/, (tag, open, selfClosing) =>
+      selfClosing ? `${open}><defs>${defs}</defs></svg>` : `${tag}<defs>${defs}</defs>`) : markup;
+  }
+
+  private findReferences(markup: string): string[] {
+    const ids: string[] = [];
+    const pattern = /url\(\s*['"]?#([^'")\s]+)/g;
+    let match;
+    while ((match = pattern.exec(markup)) !== null) {
+      if (ids.indexOf(match[1]) === -1) ids.push(match[1]);
+    }
+    return ids;
+  }
+
+  /**
+   * `inherited` holds the resolved values of the parent being rendered,
+   * `documentParent` the computed styles of the element's parent in the
+   * document. The two differ inside `<use>`, where copied content inherits
+   * from the `<use>` element rather than from where it is defined.
+   */
+  private serializeElement(
+    element: ParsedElement,
+    inherited: { [property: string]: string },
+    documentParent: { [property: string]: string },
+    using: string[],
+    extraAttributes: { [name: string]: string } = {}
+  ): string {
+    if (DROPPED_ELEMENTS.indexOf(element.tagName) !== -1) return '';
+
+    const resolved: { [property: string]: string } = {};
+    for (const property of INHERITED_PAINT_PROPERTIES.concat('color')) {
+      const value = element.styles[property];
+      const isOwn = value !== undefined && value !== documentParent[property];
+      if (isOwn || inherited[property] !== undefined) {
+        resolved[property] = isOwn ? value : inherited[property];
+      }
+    }
+
+    if (element.tagName === 'use') {
+      return this.serializeUse(element, resolved, using);
+    }
+
+    const attributes: { [name: string]: string } = Object.assign({}, extraAttributes);
+    for (const name in element.attributes) {
+      if (DROPPED_ATTRIBUTES.indexOf(name) === -1) {
+        attributes[ATTRIBUTE_CASES[name] || name] = element.attributes[name];
+      }
+    }
+    for (const property of INHERITED_PAINT_PROPERTIES) {
+      if (resolved[property] !== undefined) {
+        attributes[property] = this.resolveCurrentColor(resolved[property], resolved);
+      }
+    }
+    for (const property of OWN_PAINT_PROPERTIES) {
+      if (element.styles[property] !== undefined) {
+        attributes[property] = this.resolveCurrentColor(element.styles[property], resolved);
+      }
+    }
+
+    let content = '';
+    for (const node of element.childNodes || element.children) {
+      if (isTextNodeData(node)) {
+        content += this.escape(node.text);
+      } else if (node.styles.display !== 'none') {
+        content += this.serializeElement(node, resolved, element.styles, using);
+      }
+    }
+
+    return this.tag(element.tagName, attributes, content);
+  }
+
+  // <use x y width height href>: a symbol becomes a nested <svg>, anything else a translated copy
+  private serializeUse(use: ParsedElement, resolved: { [property: string]: string }, using: string[]): string {
+    const href = use.attributes.href || use.attributes['xlink:href'] || '';
+    const target = href.charAt(0) === '#' ? this.elementsById[href.slice(1)] : undefined;
+    if (!target || using.indexOf(href) !== -1) return '';
+
+    const x = use.attributes.x || '0';
+    const y = use.attributes.y || '0';
+    const group: { [name: string]: string } = {};
+    if (use.attributes.transform) group.transform = use.attributes.transform;
+    if (use.attributes.opacity) group.opacity = use.attributes.opacity;
+
+    const element = target.element;
+    let content: string;
+    if (element.tagName === 'symbol' || element.tagName === 'svg') {
+      const viewport: { [name: string]: string } = { x, y };
+      for (const name of ['width', 'height', 'viewbox', 'preserveaspectratio']) {
+        const value = use.attributes[name] || element.attributes[name];
+        if (value !== undefined) viewport[ATTRIBUTE_CASES[name] || name] = value;
+      }
+      let children = '';
+      for (const child of element.children) {
+        if (child.styles.display !== 'none') {
+          children += this.serializeElement(child, resolved, element.styles, using.concat(href));
+        }
+      }
+      content = this.tag('svg', viewport, children);
+    } else {
+      if (x !== '0' || y !== '0') {
+        group.transform = `${group.transform || ''} translate(${x} ${y})`.trim();
+      }
+      content = this.serializeElement(element, resolved, target.parentStyles, using.concat(href));
+    }
+
+    return this.tag('g', group, content);
+  }
+
+  private tag(tagName: string, attributes: { [name: string]: string }, content: string): string {
+    const name = TAG_CASES[tagName] || tagName;
+    let markup = `<${name}`;
+    for (const attribute in attributes) {
+      markup += ` ${attribute}="${this.escape(attributes[attribute]).replace(/"/g, '&quot;')}"`;
+    }
+    return content ? `${markup}>${content}</${name}>` : `${markup}/>`;
+  }
+
+  private resolveCurrentColor(value: string, resolved: { [property: string]: string }): string {
+    return value.trim().toLowerCase() === 'currentcolor' ? resolved.color || '#000000' : value;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  }
+}
@@ -0,0 +1,203 @@
+// A 2D affine matrix as in CSS matrix(a, b, c, d, e, f): x' = a·x + c·y + e, y' = b·x + d·y + f
+export type Matrix2D = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix2D = [1, 0, 0, 1, 0, 0];
+
+const ANGLES: { [unit: string]: number } = {
+  deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360
+};
+
+// Functions that only act on the z axis or need a perspective projection
+const THREE_D_ONLY = ['translatez', 'scalez', 'rotatex', 'rotatey', 'rotate3d', 'perspective'];
+
+/**
+ * Turns the CSS transform properties of an element into one matrix in the
+ * coordinate space of its border box, `transform-origin` included. The
+ * individual `translate`, `rotate` and `scale` properties apply before
+ * `transform`, as in CSS. Percentages refer to the border box size.
+ */
+export class TransformParser {
+  // null when nothing is transformed; `ignored` collects the 3D functions that were dropped
+  parse(
+    styles: { [property: string]: string },
+    width: number,
+    height: number,
+    ignored: string[] = []
+  ): Matrix2D | null {
+    const parts: Matrix2D[] = [];
+
+    const translate = styles.translate;
+    if (translate && translate !== 'none') {
+      const values = translate.trim().split(/\s+/);
+      const x = this.parseLength(values[0], width);
+      const y = values[1] !== undefined ? this.parseLength(values[1], height) : 0;
+      if (x !== null && y !== null) parts.push([1, 0, 0, 1, x, y]);
+    }
+
+    const rotate = styles.rotate;
+    if (rotate && rotate !== 'none') {
+      // Only rotations about the z axis are 2D: `45deg` or `z 45deg`
+      const values = rotate.trim().split(/\s+/);
+      const angle = this.parseAngle(values[values.length - 1]);
+      if (angle !== null && (values.length === 1 || values[0] === 'z')) parts.push(this.rotation(angle));
+      else ignored.push('rotate');
+    }
+
+    const scale = styles.scale;
+    if (scale && scale !== 'none') {
+      const values = scale.trim().split(/\s+/).map(value => this.parseNumber(value));
+      if (values[0] !== null) parts.push([values[0], 0, 0, values[1] !== undefined && values[1] !== null ? values[1] : values[0], 0, 0]);
+    }
+
+    const transform = styles.transform;
+    if (transform && transform !== 'none') {
+      const matrix = this.parseTransformList(transform, width, height, ignored);
+      if (matrix) parts.push(matrix);
+    }
+
+    if (parts.length === 0) return null;
+
+    const matrix = parts.reduce((result, part) => this.multiply(result, part), IDENTITY);
+    const origin = this.parseOrigin(styles['transform-origin'] || '50% 50%', width, height);
+    // Move the origin to (0, 0), transform, and move it back
+    return this.multiply(this.multiply([1, 0, 0, 1, origin.x, origin.y], matrix), [1, 0, 0, 1, -origin.x, -origin.y]);
+  }
+
+  private parseTransformList(value: string, width: number, height: number, ignored: string[]): Matrix2D | null {
+    let matrix = IDENTITY;
+    const pattern = /([a-z0-9]+)\(([^)]*)\)/gi;
+    let match;
+    let found = false;
+
+    while ((match = pattern.exec(value)) !== null) {
+      const name = match[1].toLowerCase();
+      const args = match[2].split(',').map(arg => arg.trim()).filter(arg => arg);
+      if (THREE_D_ONLY.indexOf(name) !== -1) {
+        ignored.push(`${name}()`);
+        continue;
+      }
+
+      const part = this.parseFunction(name, args, width, height);
+      // An invalid function invalidates the whole declaration
+      if (!part) return null;
+      matrix = this.multiply(matrix, part);
+      found = true;
+    }
+
+    return found ? matrix : null;
+  }
+
+  private parseFunction(name: string, args: string[], width: number, height: number): Matrix2D | null {
+    switch (name) {
+      case 'matrix': {
+        const values = args.map(arg => this.parseNumber(arg));
+        if (values.length !== 6 || values.some(value => value === null)) return null;
+        return values as Matrix2D;
+      }
+      case 'matrix3d': {
+        // The 2D part of a 4×4 column-major matrix
+        const values = args.map(arg => this.parseNumber(arg));
+        if (values.length !== 16 || values.some(value => value === null)) return null;
+        const m = values as number[];
+        return [m[0], m[1], m[4], m[5], m[12], m[13]];
+      }
+      case 'translate':
+      case 'translate3d': {
+        const x = this.parseLength(args[0], width);
+        const y = args[1] !== undefined ? this.parseLength(args[1], height) : 0;
+        return x !== null && y !== null ? [1, 0, 0, 1, x, y] : null;
+      }
+      case 'translatex': {
+        const x = this.parseLength(args[0], width);
+        return x !== null ? [1, 0, 0, 1, x, 0] : null;
+      }
+      case 'translatey': {
+        const y = this.parseLength(args[0], height);
+        return y !== null ? [1, 0, 0, 1, 0, y] : null;
+      }
+      case 'scale':
+      case 'scale3d': {
+        const x = this.parseNumber(args[0]);
+        const y = args[1] !== undefined ? this.parseNumber(args[1]) : x;
+        return x !== null && y !== null ? [x, 0, 0, y, 0, 0] : null;
+      }
+      case 'scalex': {
+        const x = this.parseNumber(args[0]);
+        return x !== null ? [x, 0, 0, 1, 0, 0] : null;
+      }
+      case 'scaley': {
+        const y = this.parseNumber(args[0]);
+        return y !== null ? [1, 0, 0, y, 0, 0] : null;
+      }
+      case 'rotate':
+      case 'rotatez': {
+        const angle = this.parseAngle(args[0]);
+        return angle !== null ? this.rotation(angle) : null;
+      }
+      case 'skew':
+      case 'skewx':
+      case 'skewy': {
+        const x = name === 'skewy' ? 0 : this.parseAngle(args[0]);
+        const y = name === 'skewx' ? 0 : this.parseAngle(name === 'skewy' ? args[0] : args[1] || '0');
+        return x !== null && y !== null ? [1, Math.tan(y * Math.PI / 180), Math.tan(x * Math.PI / 180), 1, 0, 0] : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // transform-origin: one or two of keywords, lengths and percentages; a z offset is ignored
+  private parseOrigin(value: string, width: number, height: number): { x: number; y: number } {
+    const horizontal: { [keyword: string]: number } = { left: 0, center: 0.5, right: 1 };
+    const vertical: { [keyword: string]: number } = { top: 0, center: 0.5, bottom: 1 };
+    let tokens = value.trim().toLowerCase().split(/\s+/).slice(0, 2);
+    if (tokens.length === 1) tokens.push('center');
+
+    // `top left` and `bottom 10px` name the vertical side first
+    if ((vertical[tokens[0]] !== undefined && tokens[0] !== 'center') ||
+      (horizontal[tokens[1]] !== undefined && tokens[1] !== 'center')) {
+      tokens = [tokens[1], tokens[0]];
+    }
+
+    const x = horizontal[tokens[0]] !== undefined ? horizontal[tokens[0]] * width : this.parseLength(tokens[0], width);
+    const y = vertical[tokens[1]] !== undefined ? vertical[tokens[1]] * height : this.parseLength(tokens[1], height);
+    return { x: x !== null ? x : width / 2, y: y !== null ? y : height / 2 };
+  }
+
+  private rotation(degrees: number): Matrix2D {
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return [cos, sin, -sin, cos, 0, 0];
+  }
+
+  // m1 · m2: m2 applies first
+  private multiply(m1: Matrix2D, m2: Matrix2D): Matrix2D {
+    return [
+      m1[0] * m2[0] + m1[2] * m2[1],
+      m1[1] * m2[0] + m1[3] * m2[1],
+      m1[0] * m2[2] + m1[2] * m2[3],
+      m1[1] * m2[2] + m1[3] * m2[3],
+      m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+      m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+    ];
+  }
+
+  private parseLength(value: string | undefined, percentBasis: number): number | null {
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(px|%)?$/i.exec(value || '');
+    if (!match || (!match[2] && parseFloat(match[1]) !== 0)) return null;
+    return match[2] === '%' ? parseFloat(match[1]) / 100 * percentBasis : parseFloat(match[1]);
+  }
+
+  private parseNumber(value: string | undefined): number | null {
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i.exec(value || '');
+    if (!match) return null;
+    return parseFloat(match[1]) / (match[2] ? 100 : 1);
+  }
+
+  private parseAngle(value: string | undefined): number | null {
+    const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/i.exec(value || '');
+    if (!match || (!match[2] && parseFloat(match[1]) !== 0)) return null;
+    return parseFloat(match[1]) * ANGLES[(match[2] || 'deg').toLowerCase()];
+  }
+}
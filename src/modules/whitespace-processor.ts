@@ -0,0 +1,148 @@
+import { ParsedElement, TextNodeData, isTextNodeData } from '../types';
+import { isInlineDisplay } from './html-elements';
+
+// white-space values that keep every space and line break
+const PRESERVED_WHITE_SPACE = ['pre', 'pre-wrap', 'break-spaces'];
+
+// white-space defaults from the browser stylesheet
+const DEFAULT_WHITE_SPACE: { [tagName: string]: string } = {
+  pre: 'pre',
+  listing: 'pre',
+  xmp: 'pre',
+  plaintext: 'pre',
+  textarea: 'pre-wrap',
+  nobr: 'nowrap'
+};
+
+const LAYOUT_CONTAINERS = ['flex', 'inline-flex', 'grid', 'inline-grid'];
+
+type InlineItem =
+  | { type: 'text'; node: TextNodeData; collapsible: boolean }
+  | { type: 'break' };
+
+/**
+ * Applies CSS white-space processing to the text nodes of a ParsedElement
+ * tree: collapsible whitespace is folded into single spaces (also across
+ * inline element boundaries) and removed at the start and end of each line,
+ * while `pre`/`pre-wrap` text is kept as written. `<br>` ends a line.
+ */
+export class WhitespaceProcessor {
+  process(element: ParsedElement, inheritedWhiteSpace = 'normal'): void {
+    this.processBlock(element, inheritedWhiteSpace);
+    this.updateTextContent(element, inheritedWhiteSpace);
+  }
+
+  private processBlock(element: ParsedElement, inheritedWhiteSpace: string): void {
+    const items: InlineItem[] = [];
+    const whiteSpace = this.resolveWhiteSpace(element, inheritedWhiteSpace);
+    this.collectInlineItems(element, whiteSpace, this.isLayoutContainer(element), items);
+    this.collapseLine(items);
+  }
+
+  private collectInlineItems(
+    element: ParsedElement,
+    whiteSpace: string,
+    childrenAreBlocks: boolean,
+    items: InlineItem[]
+  ): void {
+    for (const node of element.childNodes || []) {
+      if (isTextNodeData(node)) {
+        node.text = this.collapseText(node.text, whiteSpace);
+        items.push({ type: 'text', node, collapsible: PRESERVED_WHITE_SPACE.indexOf(whiteSpace) === -1 });
+      } else if (node.tagName === 'br') {
+        items.push({ type: 'break' });
+      } else if (!childrenAreBlocks && isInlineDisplay(node)) {
+        this.collectInlineItems(node, this.resolveWhiteSpace(node, whiteSpace), false, items);
+      } else {
+        // A block child ends the current run of inline content
+        this.collapseLine(items);
+        items.length = 0;
+        this.processBlock(node, whiteSpace);
+      }
+    }
+  }
+
+  private collapseText(text: string, whiteSpace: string): string {
+    if (PRESERVED_WHITE_SPACE.indexOf(whiteSpace) !== -1) {
+      return text;
+    }
+    if (whiteSpace === 'pre-line') {
+      return text.replace(/[ \t\f]*\n[ \t\f]*/g, '\n').replace(/[ \t\f]+/g, ' ');
+    }
+    return text.replace(/[ \t\n\f]+/g, ' ');
+  }
+
+  // Drops spaces that follow another space or start a line, and spaces that end a line
+  private collapseLine(items: InlineItem[]): void {
+    let atLineStart = true;
+    let afterSpace = false;
+
+    items.forEach((item, index) => {
+      if (item.type === 'break') {
+        this.trimLineEnd(items, index);
+        atLineStart = true;
+        afterSpace = false;
+        return;
+      }
+
+      let text = item.node.text;
+      if (item.collapsible && (atLineStart || afterSpace)) {
+        text = text.replace(/^ /, '');
+        item.node.text = text;
+      }
+
+      if (text) {
+        const lastChar = text.charAt(text.length - 1);
+        atLineStart = lastChar === '\n';
+        afterSpace = item.collapsible && lastChar === ' ';
+      }
+    });
+
+    this.trimLineEnd(items, items.length);
+  }
+
+  private trimLineEnd(items: InlineItem[], endIndex: number): void {
+    for (let i = endIndex - 1; i >= 0; i--) {
+      const item = items[i];
+      if (item.type === 'break') return;
+      if (item.collapsible) {
+        item.node.text = item.node.text.replace(/ $/, '');
+      }
+      if (item.node.text) return;
+    }
+  }
+
+  // Rebuilds textContent from the processed text so every consumer sees the same string
+  private updateTextContent(element: ParsedElement, inheritedWhiteSpace: string): string {
+    const whiteSpace = this.resolveWhiteSpace(element, inheritedWhiteSpace);
+    let text = '';
+
+    for (const node of element.childNodes || []) {
+      if (isTextNodeData(node)) {
+        text += node.text;
+      } else if (node.tagName === 'br') {
+        text += '\n';
+      } else {
+        text += this.updateTextContent(node, whiteSpace);
+      }
+    }
+
+    element.textContent = PRESERVED_WHITE_SPACE.indexOf(whiteSpace) !== -1 ? text : text.trim();
+    return text;
+  }
+
+  private resolveWhiteSpace(element: ParsedElement, inheritedWhiteSpace: string): string {
+    const value = element.styles['white-space'];
+    if (value === 'inherit') {
+      return inheritedWhiteSpace;
+    }
+    if (value) {
+      return value;
+    }
+    return DEFAULT_WHITE_SPACE[element.tagName] || inheritedWhiteSpace;
+  }
+
+  private isLayoutContainer(element: ParsedElement): boolean {
+    return LAYOUT_CONTAINERS.indexOf(element.styles.display) !== -1;
+  }
+}
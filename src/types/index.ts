@@ -8,6 +8,17 @@ export interface ParseHtmlMessage {
     apiKey?: string;
     designPreference: string;
   };
+  viewport?: Viewport;
+  rootFontSize?: number; // 浏览器默认字号（px），rem/em的基准
+  images?: { [fileName: string]: Uint8Array }; // 随HTML一起拖入的图片文件，按文件名匹配url()
+  fontSubstitutions?: { [cssFamily: string]: string }; // 用户编辑的字体替换表：CSS字体名 → Figma字体名
+}
+
+// 转换时模拟的目标视口，用于计算@media查询和vw/vh单位
+export interface Viewport {
+  width: number;
+  height: number;
+  colorScheme: 'light' | 'dark';
 }
 
 export interface CancelMessage {
@@ -23,6 +34,30 @@ export interface ParsedElement {
   attributes: { [key: string]: string };
   styles: { [key: string]: string };
   children: ParsedElement[];
+  childNodes?: ParsedNode[]; // 按文档顺序排列的文本和子元素
+  box?: LayoutBox; // 布局引擎计算的盒模型
+}
+
+// CSS盒模型，单位px；宽高均指边框盒
+export interface LayoutBox {
+  width: number | null; // null 表示由内容决定（收缩适应）
+  height: number | null; // null 表示由内容决定
+  minWidth: number;
+  maxWidth: number; // 无限制时为 Infinity
+  minHeight: number;
+  maxHeight: number;
+  margin: BoxEdges; // 使用值：auto 已解析
+  padding: BoxEdges;
+  border: BoxEdges;
+  spaceBefore: number; // 与前一个流内盒（或父元素内容区顶部）之间的垂直间距，外边距已折叠
+  spaceAfter: number; // 后面紧接文本行或父元素内容区底部时，下方的间距
+}
+
+export interface BoxEdges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
 }
 
 export interface SimpleElement {
@@ -30,12 +65,56 @@ export interface SimpleElement {
   attributes: { [key: string]: string };
   textContent: string;
   children: SimpleElement[];
+  childNodes: SimpleNode[]; // 按文档顺序排列的文本和子元素
+  parent?: SimpleElement;
+}
+
+// 文本节点类型
+export interface TextNodeData {
+  type: 'text';
+  text: string;
+}
+
+export type SimpleNode = SimpleElement | TextNodeData;
+export type ParsedNode = ParsedElement | TextNodeData;
+
+export function isTextNodeData(node: SimpleNode | ParsedNode): node is TextNodeData {
+  return (node as TextNodeData).type === 'text';
+}
+
+// HTML词法单元类型
+export type HtmlToken =
+  | { type: 'startTag'; tagName: string; attributes: { [key: string]: string }; selfClosing: boolean }
+  | { type: 'endTag'; tagName: string }
+  | { type: 'text'; text: string }
+  | { type: 'comment'; text: string }
+  | { type: 'doctype'; text: string };
+
+// CSS相关类型
+export interface CssDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+// 规则按源码顺序排列，数组下标即层叠时的源码顺序
+export interface CssRule {
+  selector: string;
+  declarations: CssDeclaration[];
 }
 
 export interface HtmlParseResult {
   elements: ParsedElement[];
   success: boolean;
   error?: string;
+  warnings?: string[]; // 只能近似转换的CSS特性说明
+  fontSubstitutions?: FontSubstitution[]; // 未能按CSS使用的字体
+}
+
+// 字体替换记录：CSS要求的字体与实际使用的Figma字体
+export interface FontSubstitution {
+  requested: string; // 例如 "Helvetica Neue 300 italic"
+  used: string; // 例如 "Inter Light Italic"
 }
 
 // 颜色类型
@@ -45,12 +124,18 @@ export interface RGB {
   b: number;
 }
 
-// 阴影效果类型
+// 带透明度的颜色，a为0到1之间的不透明度
+export interface RGBA extends RGB {
+  a: number;
+}
+
+// 阴影效果类型，inset阴影对应INNER_SHADOW
 export interface DropShadowEffect {
-  type: 'DROP_SHADOW';
-  color: RGB & { a: number };
+  type: 'DROP_SHADOW' | 'INNER_SHADOW';
+  color: RGBA;
   offset: { x: number; y: number };
-  radius: number;
+  radius: number; // 模糊半径
+  spread: number; // 扩展半径，文字阴影为0
   visible: boolean;
   blendMode: 'NORMAL';
 }